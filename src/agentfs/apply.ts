@@ -0,0 +1,132 @@
+import { randomBytes } from "node:crypto"
+import {
+	chmod,
+	lstat,
+	mkdir,
+	readlink,
+	rename,
+	rm,
+	stat,
+	symlink,
+	writeFile,
+} from "node:fs/promises"
+import { basename, dirname, join } from "node:path"
+import { type LoggingClient, log } from "../log"
+import { listSandboxChanges } from "./changes"
+import { readSandboxFile } from "./sandbox-fs"
+import type { ApplyResult, SandboxChange, SessionContext } from "./types"
+
+export interface ApplyOptions {
+	/** Report what would be applied without touching the project */
+	dryRun?: boolean
+	/** Only apply changes to these project-relative paths */
+	paths?: string[]
+}
+
+function tempPathFor(target: string): string {
+	return join(dirname(target), `.${basename(target)}.agentfs-${randomBytes(4).toString("hex")}`)
+}
+
+/**
+ * The permission bits for an applied file. Without a mount the temp file would get the
+ * default mode, so the target's existing mode is kept (scripts stay executable) and new
+ * files take the mode of their inode in the session database.
+ */
+async function databaseMode(
+	context: SessionContext,
+	change: SandboxChange,
+): Promise<number | undefined> {
+	try {
+		return (await stat(join(context.projectPath, change.path))).mode & 0o777
+	} catch {
+		// Created in the sandbox
+	}
+	try {
+		return (await context.agent?.fs.stat(`/${change.path}`))?.mode
+	} catch {
+		return undefined
+	}
+}
+
+/**
+ * Write one created or modified file into the project.
+ * The content is written to a temporary file next to the target and renamed over it,
+ * so the target is never left half-written.
+ */
+async function writeChange(context: SessionContext, change: SandboxChange): Promise<void> {
+	const target = join(context.projectPath, change.path)
+	const temp = tempPathFor(target)
+	await mkdir(dirname(target), { recursive: true })
+
+	try {
+		const sourceStats = context.mount.mounted
+			? await lstat(join(context.mount.mountPath, change.path))
+			: undefined
+
+		if (sourceStats?.isSymbolicLink()) {
+			await symlink(await readlink(join(context.mount.mountPath, change.path)), temp)
+		} else {
+			const content = await readSandboxFile(context, change.path)
+			const mode = sourceStats ? sourceStats.mode : await databaseMode(context, change)
+			await writeFile(temp, content)
+			// Set explicitly: the mode option of writeFile is reduced by the umask
+			if (mode !== undefined) {
+				await chmod(temp, mode & 0o777)
+			}
+		}
+
+		await rename(temp, target)
+	} catch (err) {
+		await rm(temp, { force: true })
+		throw err
+	}
+}
+
+/**
+ * Promote a session's sandbox changes into the real project directory.
+ * Created and modified files are written atomically per file, deleted files are removed.
+ * Failures are collected per file so one bad path does not abort the rest.
+ */
+export async function applySandboxChanges(
+	context: SessionContext,
+	options: ApplyOptions = {},
+	client?: LoggingClient,
+): Promise<ApplyResult> {
+	const dryRun = options.dryRun ?? false
+	let changes = await listSandboxChanges(context)
+	if (options.paths) {
+		const selected = new Set(options.paths.map((path) => path.replace(/^\.?\/+/, "")))
+		changes = changes.filter((change) => selected.has(change.path))
+	}
+
+	const result: ApplyResult = { dryRun, applied: [], failed: [] }
+	log(client, "info", `Applying ${changes.length} changes for session ${context.sessionId}`, {
+		dryRun,
+		projectPath: context.projectPath,
+	})
+
+	for (const change of changes) {
+		if (dryRun) {
+			result.applied.push(change)
+			continue
+		}
+
+		try {
+			if (change.type === "deleted") {
+				await rm(join(context.projectPath, change.path), { force: true })
+			} else {
+				await writeChange(context, change)
+			}
+			result.applied.push(change)
+		} catch (err) {
+			const error = err instanceof Error ? err.message : String(err)
+			log(client, "warn", `Failed to apply ${change.type} ${change.path}: ${error}`)
+			result.failed.push({ change, error })
+		}
+	}
+
+	log(client, "info", `Applied ${result.applied.length} changes, ${result.failed.length} failed`, {
+		dryRun,
+	})
+	return result
+}
@@ -0,0 +1,162 @@
+import { createHash } from "node:crypto"
+import type { Stats } from "node:fs"
+import { readFile, readlink } from "node:fs/promises"
+import { join } from "node:path"
+import type { AgentFS } from "agentfs-sdk"
+import {
+	getIgnoredRootEntries,
+	readSandboxFile,
+	readWhiteouts,
+	walkDelta,
+	walkHost,
+} from "./sandbox-fs"
+import type { SandboxChange, SessionContext } from "./types"
+import { isIgnoredPath, listIgnoredPaths } from "./worktree"
+
+async function sameHostContent(a: string, b: string, aStats: Stats, bStats: Stats) {
+	if (aStats.isSymbolicLink() || bStats.isSymbolicLink()) {
+		if (!aStats.isSymbolicLink() || !bStats.isSymbolicLink()) return false
+		return (await readlink(a)) === (await readlink(b))
+	}
+	if (aStats.size !== bStats.size) return false
+	// Files passed through from the base layer keep their timestamps
+	if (aStats.mtimeMs === bStats.mtimeMs) return true
+	const [aContent, bContent] = await Promise.all([readFile(a), readFile(b)])
+	return aContent.equals(bContent)
+}
+
+/**
+ * Compare the mounted overlay with the base project directory.
+ * A worktree is a fresh checkout without the project's gitignored files (.env,
+ * node_modules), so paths either side ignores are left out of the comparison.
+ */
+async function listMountedChanges(context: SessionContext): Promise<SandboxChange[]> {
+	const { projectPath } = context
+	const { mountPath } = context.mount
+	const ignored = getIgnoredRootEntries(context)
+	const [mountFiles, baseFiles, gitIgnored] = await Promise.all([
+		walkHost(mountPath, "", ignored),
+		walkHost(projectPath, "", ignored),
+		context.mount.backend === "git-worktree"
+			? Promise.all([listIgnoredPaths(mountPath), listIgnoredPaths(projectPath)])
+			: [],
+	])
+	const ignoredPaths = gitIgnored.flat()
+	for (const files of [mountFiles, baseFiles]) {
+		for (const path of files.keys()) {
+			if (isIgnoredPath(path, ignoredPaths)) files.delete(path)
+		}
+	}
+
+	const changes: SandboxChange[] = []
+	for (const [path, stats] of mountFiles) {
+		const baseStats = baseFiles.get(path)
+		if (!baseStats) {
+			changes.push({ path, type: "created", size: stats.size, mtime: stats.mtimeMs })
+		} else if (
+			!(await sameHostContent(join(mountPath, path), join(projectPath, path), stats, baseStats))
+		) {
+			changes.push({ path, type: "modified", size: stats.size, mtime: stats.mtimeMs })
+		}
+	}
+
+	for (const path of baseFiles.keys()) {
+		if (!mountFiles.has(path)) {
+			changes.push({ path, type: "deleted" })
+		}
+	}
+
+	return changes
+}
+
+/**
+ * Compare the overlay delta stored in the session database with the base project directory.
+ */
+async function listDatabaseChanges(
+	context: SessionContext,
+	agent: AgentFS,
+): Promise<SandboxChange[]> {
+	const { projectPath } = context
+	const [deltaFiles, whiteouts, baseFiles] = await Promise.all([
+		walkDelta(agent),
+		readWhiteouts(agent),
+		walkHost(projectPath, "", getIgnoredRootEntries(context)),
+	])
+
+	const changes: SandboxChange[] = []
+	for (const [path, stats] of deltaFiles) {
+		const baseStats = baseFiles.get(path)
+		if (!baseStats) {
+			changes.push({ path, type: "created", ...stats })
+			continue
+		}
+
+		// Copy-up may store an unchanged copy of a base file
+		if (baseStats.size === stats.size) {
+			const [deltaContent, baseContent] = await Promise.all([
+				agent.fs.readFile(`/${path}`),
+				readFile(join(projectPath, path)),
+			])
+			if (Buffer.from(deltaContent).equals(baseContent)) continue
+		}
+		changes.push({ path, type: "modified", ...stats })
+	}
+
+	// A whiteout hides a file or a whole directory from the base layer
+	const deleted = new Set<string>()
+	for (const whiteout of whiteouts) {
+		for (const path of baseFiles.keys()) {
+			if ((path === whiteout || path.startsWith(`${whiteout}/`)) && !deltaFiles.has(path)) {
+				deleted.add(path)
+			}
+		}
+	}
+	for (const path of deleted) {
+		changes.push({ path, type: "deleted" })
+	}
+
+	return changes
+}
+
+/**
+ * List every change the session made relative to its base project directory.
+ * Uses the FUSE mount when it is up, otherwise reads the overlay delta from the database.
+ * Paths are relative to the project root, sorted alphabetically.
+ */
+export async function listSandboxChanges(context: SessionContext): Promise<SandboxChange[]> {
+	let changes: SandboxChange[]
+	if (context.mount.mounted) {
+		changes = await listMountedChanges(context)
+	} else if (context.agent) {
+		changes = await listDatabaseChanges(context, context.agent)
+	} else {
+		throw new Error(`Session ${context.sessionId} has no mounted overlay or open database`)
+	}
+
+	// Hidden secret files are absent from the sandbox on purpose, not deleted by the session
+	const hidden = context.hiddenPaths
+	if (hidden) {
+		changes = changes.filter((change) => change.type !== "deleted" || !hidden.has(change.path))
+	}
+
+	return changes.sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0))
+}
+
+export function hashContent(content: Buffer): string {
+	return createHash("sha256").update(content).digest("hex")
+}
+
+/**
+ * Describe the sandbox state as a map of changed paths to content hashes (null for deleted).
+ * Paths missing from the map match the base project.
+ */
+export async function hashSandboxFiles(
+	context: SessionContext,
+): Promise<Record<string, string | null>> {
+	const files: Record<string, string | null> = {}
+	for (const change of await listSandboxChanges(context)) {
+		files[change.path] =
+			change.type === "deleted" ? null : hashContent(await readSandboxFile(context, change.path))
+	}
+	return files
+}
@@ -0,0 +1,326 @@
+import { access, mkdir, readdir, readFile, rm, writeFile } from "node:fs/promises"
+import { dirname, join } from "node:path"
+import { type LoggingClient, log } from "../log"
+import { hashContent } from "./changes"
+import {
+	deleteSandboxFile,
+	listSandboxFilesUnder,
+	readSandboxFile,
+	writeSandboxFile,
+} from "./sandbox-fs"
+import type { Checkpoint, RollbackResult, SessionContext, UndoResult } from "./types"
+
+// Loaded checkpoint lists keyed by session ID, oldest first
+const checkpointCache = new Map<string, Checkpoint[]>()
+// Checkpoint operations of each session run one at a time: parallel tool calls would
+// otherwise save the index while another call's blobs are still being stored, and the
+// blob collection in saveCheckpoints would delete them
+const pendingOperations = new Map<string, Promise<unknown>>()
+
+function serialize<T>(context: SessionContext, operation: () => Promise<T>): Promise<T> {
+	const run = (pendingOperations.get(context.sessionId) ?? Promise.resolve()).then(operation)
+	pendingOperations.set(
+		context.sessionId,
+		run.catch(() => {}),
+	)
+	return run
+}
+
+/**
+ * Checkpoints live next to the session database:
+ * <dbDir>/<sessionId>.checkpoints/index.json and content-addressed blobs/<sha256>.
+ * Only the files a tool call names are stored, and each distinct content is stored once.
+ */
+export function getCheckpointDir(dbPath: string, sessionId: string): string {
+	return join(dirname(dbPath), `${sessionId}.checkpoints`)
+}
+
+async function loadCheckpoints(context: SessionContext): Promise<Checkpoint[]> {
+	const cached = checkpointCache.get(context.sessionId)
+	if (cached) {
+		return cached
+	}
+
+	let checkpoints: Checkpoint[] = []
+	try {
+		const index = await readFile(
+			join(getCheckpointDir(context.mount.dbPath, context.sessionId), "index.json"),
+			"utf8",
+		)
+		// Checkpoints written before paths were recorded name none
+		checkpoints = (JSON.parse(index) as Checkpoint[]).map((checkpoint) => ({
+			...checkpoint,
+			paths: checkpoint.paths ?? [],
+		}))
+	} catch {
+		// No checkpoints taken yet
+	}
+	checkpointCache.set(context.sessionId, checkpoints)
+	return checkpoints
+}
+
+/**
+ * Persist the checkpoint list and delete blobs no checkpoint refers to anymore.
+ */
+async function saveCheckpoints(context: SessionContext, checkpoints: Checkpoint[]): Promise<void> {
+	const dir = getCheckpointDir(context.mount.dbPath, context.sessionId)
+	checkpointCache.set(context.sessionId, checkpoints)
+	await mkdir(join(dir, "blobs"), { recursive: true })
+	await writeFile(join(dir, "index.json"), JSON.stringify(checkpoints))
+
+	const referenced = new Set(
+		checkpoints.flatMap((checkpoint) => Object.values(checkpoint.files)).filter(Boolean),
+	)
+	for (const blob of await readdir(join(dir, "blobs"))) {
+		if (!referenced.has(blob)) {
+			await rm(join(dir, "blobs", blob), { force: true })
+		}
+	}
+}
+
+async function storeBlob(context: SessionContext, content: Buffer): Promise<string> {
+	const hash = hashContent(content)
+	const blobPath = join(getCheckpointDir(context.mount.dbPath, context.sessionId), "blobs", hash)
+	const stored = await access(blobPath).then(
+		() => true,
+		() => false,
+	)
+	if (!stored) {
+		await mkdir(dirname(blobPath), { recursive: true })
+		await writeFile(blobPath, content)
+	}
+	return hash
+}
+
+/**
+ * Hash a file as the session sees it, or null if it does not exist there.
+ */
+async function hashSandboxPath(context: SessionContext, path: string): Promise<string | null> {
+	try {
+		return hashContent(await readSandboxFile(context, path))
+	} catch {
+		return null
+	}
+}
+
+/**
+ * Save every file at or below the given paths as blobs and describe them by hash.
+ * Paths with no files are recorded as null so restoring them removes what a call created.
+ */
+async function storeFiles(context: SessionContext, paths: string[]): Promise<Checkpoint["files"]> {
+	const files: Checkpoint["files"] = {}
+	for (const path of paths) {
+		const existing = await listSandboxFilesUnder(context, path)
+		if (existing.length === 0) {
+			files[path] = null
+		}
+		for (const file of existing) {
+			files[file] = await storeBlob(context, await readSandboxFile(context, file))
+		}
+	}
+	return files
+}
+
+/**
+ * Set one sandbox file to a checkpointed state: a blob hash, or null for a missing file.
+ */
+async function restoreFile(
+	context: SessionContext,
+	path: string,
+	state: string | null,
+): Promise<void> {
+	if (state === null) {
+		await deleteSandboxFile(context, path)
+	} else {
+		const blob = await readFile(
+			join(getCheckpointDir(context.mount.dbPath, context.sessionId), "blobs", state),
+		)
+		await writeSandboxFile(context, path, blob)
+	}
+}
+
+/**
+ * Snapshot the files a tool call is about to change (project-relative files or
+ * directories), so the cost follows what the call touches rather than the project size.
+ * Keeps at most maxCheckpoints checkpoints, dropping the oldest.
+ */
+export async function createCheckpoint(
+	context: SessionContext,
+	callID: string,
+	tool: string,
+	paths: string[],
+	maxCheckpoints: number,
+): Promise<Checkpoint> {
+	return serialize(context, async () => {
+		const uniquePaths = [...new Set(paths)]
+		const files = await storeFiles(context, uniquePaths)
+		const checkpoint: Checkpoint = {
+			callID,
+			tool,
+			createdAt: Date.now(),
+			paths: uniquePaths,
+			files,
+		}
+		const checkpoints = [...(await loadCheckpoints(context)), checkpoint].slice(-maxCheckpoints)
+		await saveCheckpoints(context, checkpoints)
+		return checkpoint
+	})
+}
+
+/**
+ * List a session's checkpoints, oldest first.
+ */
+export async function listCheckpoints(context: SessionContext): Promise<Checkpoint[]> {
+	return [...(await loadCheckpoints(context))]
+}
+
+/**
+ * Restore the sandbox to the state it had before the given tool call.
+ * Each file takes its state from the first checkpoint from that call on that saved it;
+ * files created below a checkpointed directory are removed.
+ * Checkpoints taken after it are discarded since they describe an abandoned history.
+ * Files a call changed without naming them, such as the output of a program a bash
+ * command ran, are not restored; such calls are reported as uncovered.
+ */
+export async function rollbackToCheckpoint(
+	context: SessionContext,
+	callID: string,
+	client?: LoggingClient,
+): Promise<RollbackResult> {
+	return serialize(context, async () => {
+		const checkpoints = await loadCheckpoints(context)
+		const index = checkpoints.findIndex((checkpoint) => checkpoint.callID === callID)
+		const checkpoint = checkpoints[index]
+		if (!checkpoint) {
+			throw new Error(`Checkpoint not found for call ${callID} in session ${context.sessionId}`)
+		}
+
+		log(client, "info", `Rolling back session ${context.sessionId} to before call ${callID}`)
+
+		const rolledBack = checkpoints.slice(index)
+		const target = new Map<string, string | null>()
+		for (const later of rolledBack) {
+			for (const [path, state] of Object.entries(later.files)) {
+				if (!target.has(path)) target.set(path, state)
+			}
+			for (const path of later.paths) {
+				for (const file of await listSandboxFilesUnder(context, path)) {
+					if (!target.has(file)) target.set(file, null)
+				}
+			}
+		}
+
+		const restored: string[] = []
+		for (const [path, state] of [...target].sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))) {
+			if ((await hashSandboxPath(context, path)) === state) continue
+			await restoreFile(context, path, state)
+			restored.push(path)
+		}
+
+		// The sandbox is back to before the call, so the call no longer changed anything
+		checkpoint.changed = {}
+		await saveCheckpoints(context, checkpoints.slice(0, index + 1))
+		const uncovered = rolledBack.filter(
+			(later) => later.tool.toLowerCase() === "bash" || later.paths.length === 0,
+		)
+		log(client, "info", `Rolled back ${restored.length} files`, { callID, restored })
+		return { checkpoint, restored, uncovered }
+	})
+}
+
+/**
+ * List the files at or below a checkpoint's paths, as saved and as the sandbox has them now.
+ */
+async function checkpointedFiles(
+	context: SessionContext,
+	checkpoint: Checkpoint,
+): Promise<string[]> {
+	const files = new Set(Object.keys(checkpoint.files))
+	for (const path of checkpoint.paths) {
+		for (const file of await listSandboxFilesUnder(context, path)) files.add(file)
+	}
+	return [...files].sort()
+}
+
+/**
+ * Record which of the files a tool call named it actually changed, once it finished.
+ * Returns the updated checkpoint, or undefined if the call has none.
+ */
+export async function recordCheckpointChanges(
+	context: SessionContext,
+	callID: string,
+): Promise<Checkpoint | undefined> {
+	return serialize(context, async () => {
+		const checkpoints = await loadCheckpoints(context)
+		const checkpoint = checkpoints.find((candidate) => candidate.callID === callID)
+		if (!checkpoint) {
+			return undefined
+		}
+
+		const changed: Record<string, string | null> = {}
+		for (const path of await checkpointedFiles(context, checkpoint)) {
+			const state = await hashSandboxPath(context, path)
+			if (state !== (checkpoint.files[path] ?? null)) {
+				changed[path] = state
+			}
+		}
+		checkpoint.changed = changed
+		await saveCheckpoints(context, checkpoints)
+		return checkpoint
+	})
+}
+
+/**
+ * Revert only the files a single tool call changed, as recorded when it finished, leaving
+ * every other file alone. If one of them changed again since, nothing is reverted and the
+ * conflicting files are reported instead.
+ */
+export async function undoToolCall(
+	context: SessionContext,
+	callID: string,
+	client?: LoggingClient,
+): Promise<UndoResult> {
+	return serialize(context, async () => {
+		const checkpoints = await loadCheckpoints(context)
+		const checkpoint = checkpoints.find((candidate) => candidate.callID === callID)
+		if (!checkpoint) {
+			throw new Error(`Checkpoint not found for call ${callID} in session ${context.sessionId}`)
+		}
+		if (!checkpoint.changed) {
+			throw new Error(`Call ${callID} has not finished, so its changes are not known yet`)
+		}
+
+		const changed = Object.keys(checkpoint.changed).sort()
+		const conflicts: UndoResult["conflicts"] = []
+		for (const path of changed) {
+			if ((await hashSandboxPath(context, path)) !== checkpoint.changed[path]) {
+				conflicts.push({ path, reason: "changed again after the tool call" })
+			}
+		}
+
+		if (conflicts.length > 0) {
+			log(client, "warn", `Cannot undo call ${callID}: ${conflicts.length} conflicting files`, {
+				conflicts,
+			})
+			return { callID, reverted: [], conflicts }
+		}
+
+		for (const path of changed) {
+			await restoreFile(context, path, checkpoint.files[path] ?? null)
+		}
+		// The call's changes are gone, so undoing it again has nothing to do
+		checkpoint.changed = {}
+		await saveCheckpoints(context, checkpoints)
+
+		log(client, "info", `Undid call ${callID}`, { reverted: changed })
+		return { callID, reverted: changed, conflicts: [] }
+	})
+}
+
+/**
+ * Drop a session's checkpoints from memory (e.g. when the session ends).
+ */
+export function forgetCheckpoints(sessionId: string): void {
+	checkpointCache.delete(sessionId)
+	pendingOperations.delete(sessionId)
+}
@@ -0,0 +1,108 @@
+import { type LoggingClient, log } from "../log"
+import { hashSandboxFiles } from "./changes"
+import { getSession } from "./client"
+import { forkSession } from "./fork"
+import { deleteSandboxFile, readSandboxFile, restoreBaseFile, writeSandboxFile } from "./sandbox-fs"
+import type { MergeResult } from "./types"
+
+interface StackedChild {
+	parentSessionId: string
+	// Child sandbox state when it last matched the parent (at fork or last merge)
+	mergedState: Map<string, string | null>
+}
+
+const stackedChildren = new Map<string, StackedChild>()
+
+/**
+ * Layer a child session's sandbox over its parent's current state.
+ * The child starts as a fork of the parent, and mergeChildSession() later brings
+ * the child's changes back into the parent's sandbox.
+ */
+export async function stackChildSession(
+	childSessionId: string,
+	parentSessionId: string,
+	client?: LoggingClient,
+): Promise<void> {
+	await forkSession(parentSessionId, childSessionId, client)
+
+	const child = getSession(childSessionId)
+	if (!child) {
+		throw new Error(`Session not found: ${childSessionId}`)
+	}
+	stackedChildren.set(childSessionId, {
+		parentSessionId,
+		mergedState: new Map(Object.entries(await hashSandboxFiles(child))),
+	})
+}
+
+export function isStackedChild(sessionId: string): boolean {
+	return stackedChildren.has(sessionId)
+}
+
+/**
+ * Merge the changes a stacked child made since its last merge into the parent's sandbox.
+ * Files the parent also changed in the meantime are reported as conflicts and left alone.
+ */
+export async function mergeChildSession(
+	childSessionId: string,
+	client?: LoggingClient,
+): Promise<MergeResult> {
+	const stacked = stackedChildren.get(childSessionId)
+	if (!stacked) {
+		throw new Error(`Session ${childSessionId} is not stacked on a parent session`)
+	}
+	const child = getSession(childSessionId)
+	const parent = getSession(stacked.parentSessionId)
+	if (!child || !parent) {
+		throw new Error(`Session not found: ${child ? stacked.parentSessionId : childSessionId}`)
+	}
+
+	const { mergedState } = stacked
+	const [childState, parentState] = await Promise.all([
+		hashSandboxFiles(child),
+		hashSandboxFiles(parent),
+	])
+
+	const result: MergeResult = { merged: [], conflicts: [] }
+	const paths = new Set([...mergedState.keys(), ...Object.keys(childState)])
+	for (const path of [...paths].sort()) {
+		const childValue = childState[path]
+		const mergedValue = mergedState.get(path)
+		if (childValue === mergedValue) continue
+
+		const parentValue = parentState[path]
+		if (parentValue !== mergedValue && parentValue !== childValue) {
+			result.conflicts.push({ path, reason: "changed in the parent session since the fork" })
+			continue
+		}
+
+		if (childValue === undefined) {
+			await restoreBaseFile(parent, path)
+		} else if (childValue === null) {
+			await deleteSandboxFile(parent, path)
+		} else {
+			await writeSandboxFile(parent, path, await readSandboxFile(child, path))
+		}
+
+		// Only merged paths move forward, so conflicts are reported again next time
+		if (childValue === undefined) {
+			mergedState.delete(path)
+		} else {
+			mergedState.set(path, childValue)
+		}
+		result.merged.push(path)
+	}
+
+	log(client, "info", `Merged child session ${childSessionId} into ${stacked.parentSessionId}`, {
+		merged: result.merged.length,
+		conflicts: result.conflicts,
+	})
+	return result
+}
+
+/**
+ * Stop tracking a stacked child (e.g. when it is deleted).
+ */
+export function unstackChildSession(childSessionId: string): void {
+	stackedChildren.delete(childSessionId)
+}
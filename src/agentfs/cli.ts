@@ -0,0 +1,94 @@
+import { spawn } from "bun"
+import { type LoggingClient, log } from "../log"
+import type { AgentFSCliOptions } from "./types"
+
+/**
+ * agentfs CLI versions whose `init --base` and `mount -f --auto-unmount` we rely on.
+ */
+export const SUPPORTED_CLI_VERSIONS = ">=0.3.0 <1.0.0"
+
+// How long `agentfs --version` may take before the CLI counts as broken
+const VERSION_TIMEOUT_MS = 5000
+
+export const DEFAULT_CLI: AgentFSCliOptions = {
+	path: "agentfs",
+	initArgs: [],
+	mountArgs: [],
+	env: {},
+}
+
+/**
+ * The environment agentfs commands run with: ours plus the configured variables.
+ */
+export function cliEnv(cli: AgentFSCliOptions = DEFAULT_CLI): Record<string, string | undefined> {
+	return { ...process.env, ...cli.env }
+}
+
+/**
+ * Find the agentfs executable, looking names up on the PATH agentfs commands run with.
+ * Returns undefined if it does not exist or is not executable.
+ */
+export function findAgentFSBinary(cli: AgentFSCliOptions = DEFAULT_CLI): string | undefined {
+	return Bun.which(cli.path, { PATH: cliEnv(cli).PATH ?? "" }) ?? undefined
+}
+
+/**
+ * Pull the version number out of `agentfs --version` output (e.g. "agentfs 0.4.1").
+ * Exported for testing.
+ */
+export function parseCliVersion(output: string): string | undefined {
+	return output.match(/(\d+\.\d+\.\d+(?:-[0-9A-Za-z.]+)?)/)?.[1]
+}
+
+/**
+ * Check that the configured agentfs CLI exists and is a supported version.
+ * Returns an error message saying how to fix the setup, or undefined if the CLI is usable.
+ */
+export async function checkAgentFSCli(
+	cli: AgentFSCliOptions = DEFAULT_CLI,
+	client?: LoggingClient,
+	timeoutMs = VERSION_TIMEOUT_MS,
+): Promise<string | undefined> {
+	const binary = findAgentFSBinary(cli)
+	if (!binary) {
+		return (
+			"AgentFS CLI not found. Install with: cargo install agentfs-cli " +
+			`(looked for "${cli.path}"; set agentfs.cli.path if it is installed outside PATH)`
+		)
+	}
+
+	let output: string
+	try {
+		const proc = spawn([binary, "--version"], { stdout: "pipe", stderr: "pipe", env: cliEnv(cli) })
+		const result = await Promise.race([
+			Promise.all([
+				new Response(proc.stdout).text(),
+				new Response(proc.stderr).text(),
+				proc.exited,
+			]),
+			Bun.sleep(timeoutMs).then(() => undefined),
+		])
+		if (!result) {
+			proc.kill()
+			return `${binary} --version did not finish within ${timeoutMs}ms`
+		}
+		output = `${result[0]}${result[1]}`.trim()
+	} catch (err) {
+		return `Could not run ${binary} --version: ${err}`
+	}
+
+	const version = parseCliVersion(output)
+	if (!version) {
+		return `Could not read the AgentFS CLI version from "${binary} --version": ${output || "no output"}`
+	}
+	if (!Bun.semver.satisfies(version, SUPPORTED_CLI_VERSIONS)) {
+		return (
+			`AgentFS CLI ${version} at ${binary} is not supported (need ${SUPPORTED_CLI_VERSIONS}). ` +
+			"Install a supported version with cargo install agentfs-cli --version <version>, " +
+			"or point agentfs.cli.path at one"
+		)
+	}
+
+	log(client, "debug", `AgentFS CLI ${version} found at ${binary}`)
+	return undefined
+}
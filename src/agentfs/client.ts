@@ -6,6 +6,8 @@ import type { AgentFSConfig } from "../config/schema"
 import type { MountInfo, SessionContext } from "./types"
 
 const sessions = new Map<string, SessionContext>()
+// Child sessions that reuse their parent's context, keyed by child session ID
+const sharedSessions = new Map<string, string>()
 
 const MAX_RETRIES = 5
 const INITIAL_DELAY_MS = 100
@@ -47,14 +49,26 @@ function expandPath(path: string): string {
 	return path
 }
 
+/**
+ * The directory holding every session's database.
+ */
+export function getDbRoot(config: AgentFSConfig): string {
+	return expandPath(config.dbPath)
+}
+
 export function getDbPath(config: AgentFSConfig, sessionId: string): string {
-	const dbDir = expandPath(config.dbPath)
-	return join(dbDir, `${sessionId}.db`)
+	return join(getDbRoot(config), `${sessionId}.db`)
+}
+
+/**
+ * The directory holding every session's mount point (and the mount registry).
+ */
+export function getMountRoot(config: AgentFSConfig): string {
+	return expandPath(config.mountPath)
 }
 
 export function getMountPath(config: AgentFSConfig, sessionId: string): string {
-	const mountDir = expandPath(config.mountPath)
-	return join(mountDir, sessionId)
+	return join(getMountRoot(config), sessionId)
 }
 
 /**
@@ -84,6 +98,15 @@ export async function createSessionContext(
 		mountPath,
 		dbPath,
 		mounted: false,
+		backend: config.mountBackend,
+		readyTimeoutMs: config.mountTimeoutMs,
+		cli: config.cli,
+		// With the health monitor on, it alone restarts mounts: the supervisor exits with the
+		// daemon and the monitor remounts, instead of two restart loops racing each other
+		restart: config.mountHealth.enabled
+			? { ...config.mountRestart, maxRestarts: 0 }
+			: config.mountRestart,
+		unmount: config.unmount,
 	}
 
 	const context: SessionContext = {
@@ -141,7 +164,25 @@ export async function createSession(
 }
 
 export function getSession(sessionId: string): SessionContext | undefined {
-	return sessions.get(sessionId)
+	return sessions.get(sharedSessions.get(sessionId) ?? sessionId)
+}
+
+/**
+ * Make a session reuse another session's context, mount and database.
+ * getSession() for the child then returns the parent's context.
+ */
+export function shareSession(childSessionId: string, parentSessionId: string): SessionContext {
+	const parentId = sharedSessions.get(parentSessionId) ?? parentSessionId
+	const context = sessions.get(parentId)
+	if (!context) {
+		throw new Error(`Session not found: ${parentSessionId}`)
+	}
+	sharedSessions.set(childSessionId, parentId)
+	return context
+}
+
+export function isSharedSession(sessionId: string): boolean {
+	return sharedSessions.has(sessionId)
 }
 
 /**
@@ -162,15 +203,27 @@ export async function closeDatabase(sessionId: string): Promise<void> {
  * Close the session completely (close database and remove from memory).
  */
 export async function closeSession(sessionId: string): Promise<void> {
+	// A shared child only drops its link - the parent keeps its context
+	if (sharedSessions.delete(sessionId)) {
+		return
+	}
+
 	const context = sessions.get(sessionId)
 	if (!context) {
 		return
 	}
 
-	if (context.agent) {
-		await context.agent.close()
+	try {
+		await context.agent?.close()
+	} finally {
+		// A database that fails to close must not keep the session in memory
+		sessions.delete(sessionId)
+		for (const [childId, parentId] of sharedSessions) {
+			if (parentId === sessionId) {
+				sharedSessions.delete(childId)
+			}
+		}
 	}
-	sessions.delete(sessionId)
 }
 
 export function getAllSessions(): SessionContext[] {
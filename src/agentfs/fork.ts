@@ -0,0 +1,59 @@
+import { type LoggingClient, log } from "../log"
+import { listSandboxChanges } from "./changes"
+import { getSession } from "./client"
+import { deleteSandboxFile, readSandboxFile, writeSandboxFile } from "./sandbox-fs"
+import type { SessionContext } from "./types"
+
+/**
+ * Copy one sandbox's overlay state into another sandbox over the same project.
+ * Works through the mount or the database on either side, so the source's FUSE
+ * daemon can keep holding its database lock. Returns the number of files copied.
+ */
+export async function copySandbox(
+	source: SessionContext,
+	target: SessionContext,
+	client?: LoggingClient,
+): Promise<number> {
+	if (source.projectPath !== target.projectPath) {
+		throw new Error(
+			`Cannot fork session ${source.sessionId} into ${target.sessionId}: different projects`,
+		)
+	}
+
+	const changes = await listSandboxChanges(source)
+	for (const change of changes) {
+		if (change.type === "deleted") {
+			await deleteSandboxFile(target, change.path)
+		} else {
+			await writeSandboxFile(target, change.path, await readSandboxFile(source, change.path))
+		}
+	}
+
+	log(client, "info", `Copied ${changes.length} changes from ${source.sessionId}`, {
+		target: target.sessionId,
+	})
+	return changes.length
+}
+
+/**
+ * Start a session's sandbox as a copy of another session's sandbox.
+ * Both sessions must be initialized (mounted or with an open database).
+ */
+export async function forkSession(
+	sourceSessionId: string,
+	targetSessionId: string,
+	client?: LoggingClient,
+): Promise<number> {
+	const source = getSession(sourceSessionId)
+	if (!source) {
+		throw new Error(`Session not found: ${sourceSessionId}`)
+	}
+	const target = getSession(targetSessionId)
+	if (!target) {
+		throw new Error(`Session not found: ${targetSessionId}`)
+	}
+
+	const copied = await copySandbox(source, target, client)
+	await target.agent?.kv.set("session:forkedFrom", sourceSessionId)
+	return copied
+}
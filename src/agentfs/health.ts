@@ -0,0 +1,215 @@
+import type { Subprocess } from "bun"
+import { type LoggingClient, log } from "../log"
+import { openDatabase } from "./client"
+import {
+	getMountBackend,
+	getMountProcess,
+	isMountChanging,
+	mountSandbox,
+	unmountSandbox,
+} from "./mount"
+import { applyHiddenFiles } from "./secrets"
+import type { SessionContext } from "./types"
+
+const REMOUNT_DELAY_MS = 1000
+
+export interface MountHealthOptions {
+	/** How often the mount point is probed */
+	intervalMs: number
+	/** Remount attempts before the session is left unmounted */
+	maxRemounts: number
+	/** Called with the reason when the sandbox cannot be remounted */
+	onFailure?: (message: string) => void
+}
+
+interface MountMonitor {
+	timer: ReturnType<typeof setInterval>
+	// The mount process whose exit is being watched
+	process?: Subprocess
+	checking: boolean
+}
+
+const monitors = new Map<string, MountMonitor>()
+
+/**
+ * Unmount what is left of a broken sandbox and mount it again, retrying with backoff.
+ * Returns the last error, or undefined once the sandbox is back.
+ */
+async function remount(
+	context: SessionContext,
+	options: MountHealthOptions,
+	client?: LoggingClient,
+): Promise<string | undefined> {
+	const { mount } = context
+	let lastError = mount.error
+	for (let attempt = 0; attempt < options.maxRemounts; attempt++) {
+		if (attempt > 0) {
+			await Bun.sleep(REMOUNT_DELAY_MS * 2 ** (attempt - 1))
+		}
+		log(client, "info", `Remounting sandbox for session ${mount.sessionId}`, {
+			attempt: attempt + 1,
+		})
+		try {
+			// Clears a stale FUSE endpoint left behind by a crashed daemon
+			await unmountSandbox(mount, client)
+			await mountSandbox(mount, context.projectPath, client)
+			await applyHiddenFiles(context)
+			return undefined
+		} catch (err) {
+			lastError = err instanceof Error ? err.message : String(err)
+			mount.error = lastError
+			log(client, "warn", `Remount failed: ${lastError}`, { attempt: attempt + 1 })
+		}
+	}
+	return lastError ?? `Sandbox for session ${mount.sessionId} is not mounted`
+}
+
+/**
+ * Probe a session's mounted sandbox and remount it if it stopped working (e.g. the FUSE
+ * daemon crashed and every access fails with ENOTCONN). If remounting fails the mount
+ * is marked lost with the error, and the session database is opened so the SDK
+ * can still serve it. Returns whether the sandbox is mounted afterwards.
+ */
+export async function checkMountHealth(
+	context: SessionContext,
+	options: MountHealthOptions,
+	client?: LoggingClient,
+): Promise<boolean> {
+	const { mount } = context
+	if (!mount.mounted || isMountChanging(mount.sessionId)) {
+		return mount.mounted
+	}
+
+	const backend = getMountBackend(mount.backend)
+	const problem = await backend.verify(mount, client)
+	if (!problem) {
+		return true
+	}
+
+	log(client, "warn", `Sandbox for session ${mount.sessionId} is unhealthy: ${problem}`)
+	mount.error = problem
+	const error = await remount(context, options, client)
+	if (!error) {
+		mount.error = undefined
+		log(client, "info", `Sandbox for session ${mount.sessionId} remounted`)
+		return true
+	}
+
+	mount.mounted = false
+	mount.lost = true
+	mount.pid = undefined
+	mount.error = error
+	log(client, "error", `Giving up on the sandbox for session ${mount.sessionId}: ${error}`)
+	if (backend.holdsDatabaseLock) {
+		try {
+			await openDatabase(mount.sessionId)
+		} catch (err) {
+			log(client, "warn", `Could not open the session database: ${err}`)
+		}
+	}
+	options.onFailure?.(error)
+	return false
+}
+
+/**
+ * Check a mounted sandbox unless a check is already running. Stops the monitor once
+ * the sandbox is given up on.
+ */
+async function runCheck(
+	context: SessionContext,
+	options: MountHealthOptions,
+	client?: LoggingClient,
+): Promise<void> {
+	const monitor = monitors.get(context.sessionId)
+	// An unmounted sandbox is being reset or closed; the monitor resumes once it is back
+	if (!monitor || monitor.checking || !context.mount.mounted) {
+		return
+	}
+
+	monitor.checking = true
+	try {
+		const healthy = await checkMountHealth(context, options, client)
+		if (!healthy && monitors.get(context.sessionId) === monitor) {
+			stopMountMonitor(context.sessionId)
+			return
+		}
+	} catch (err) {
+		log(client, "warn", `Mount health check failed: ${err}`)
+	} finally {
+		monitor.checking = false
+	}
+	watchMountProcess(context, options, client)
+}
+
+/**
+ * Check the sandbox as soon as its mount process exits, instead of at the next probe.
+ * Processes stopped by an unmount are no longer registered and are ignored.
+ */
+function watchMountProcess(
+	context: SessionContext,
+	options: MountHealthOptions,
+	client?: LoggingClient,
+): void {
+	const monitor = monitors.get(context.sessionId)
+	const proc = getMountProcess(context.sessionId)
+	if (!monitor || !proc || monitor.process === proc) {
+		return
+	}
+
+	monitor.process = proc
+	proc.exited.then((exitCode) => {
+		if (
+			monitors.get(context.sessionId) !== monitor ||
+			getMountProcess(context.sessionId) !== proc
+		) {
+			return
+		}
+		log(client, "warn", `Mount process for session ${context.sessionId} exited`, { exitCode })
+		void runCheck(context, options, client)
+	})
+}
+
+/**
+ * Start watching a mounted session's sandbox: the mount process exit and a periodic
+ * probe of the mount point. Replaces any monitor already running for the session.
+ */
+export function startMountMonitor(
+	context: SessionContext,
+	options: MountHealthOptions,
+	client?: LoggingClient,
+): void {
+	stopMountMonitor(context.sessionId)
+
+	const timer = setInterval(() => {
+		void runCheck(context, options, client)
+	}, options.intervalMs)
+	// Probing alone must not keep the process alive
+	timer.unref()
+
+	monitors.set(context.sessionId, { timer, checking: false })
+	watchMountProcess(context, options, client)
+	log(client, "debug", `Watching mount health for session ${context.sessionId}`, {
+		intervalMs: options.intervalMs,
+	})
+}
+
+export function stopMountMonitor(sessionId: string): void {
+	const monitor = monitors.get(sessionId)
+	if (monitor) {
+		clearInterval(monitor.timer)
+		monitors.delete(sessionId)
+	}
+}
+
+/**
+ * Stop every monitor. Used before mount processes are killed on shutdown.
+ */
+export function stopAllMountMonitors(): void {
+	for (const sessionId of monitors.keys()) {
+		stopMountMonitor(sessionId)
+	}
+}
+
+export function isMountMonitored(sessionId: string): boolean {
+	return monitors.has(sessionId)
+}
@@ -1,9 +1,29 @@
-import { access, constants } from "node:fs/promises"
+import { existsSync } from "node:fs"
+import { access, constants, readdir, readFile, readlink, realpath } from "node:fs/promises"
+import { platform } from "node:os"
+import { resolve } from "node:path"
+import { fileURLToPath } from "node:url"
 import { type Subprocess, spawn } from "bun"
 import { type LoggingClient, log } from "../log"
-import type { MountInfo } from "./types"
+import { checkAgentFSCli, cliEnv, DEFAULT_CLI, findAgentFSBinary } from "./cli"
+import { forgetMount, recordMount } from "./registry"
+import type { SupervisorOptions } from "./supervisor"
+import type {
+	AgentFSCliOptions,
+	MountBackend,
+	MountBackendName,
+	MountInfo,
+	MountRestartOptions,
+	MountStatus,
+	UnmountOptions,
+} from "./types"
+import { worktreeBackend } from "./worktree"
 
 const mountProcesses = new Map<string, Subprocess>()
+// Stderr of each mount process, collected while it runs for error messages
+const mountErrors = new Map<string, CapturedOutput>()
+// Sessions whose sandbox is being mounted or unmounted right now
+const changingMounts = new Set<string>()
 
 /**
  * Kill all mount processes. Used for cleanup on process exit.
@@ -13,83 +33,264 @@ export function killAllMountProcesses(): void {
 		try {
 			proc.kill()
 			mountProcesses.delete(sessionId)
+			mountErrors.delete(sessionId)
 		} catch {
 			// Ignore errors - process may already be dead
 		}
 	}
 }
 
+/**
+ * The running mount process of a session, if its backend runs one.
+ */
+export function getMountProcess(sessionId: string): Subprocess | undefined {
+	return mountProcesses.get(sessionId)
+}
+
+/**
+ * Whether a mount or unmount of the session's sandbox is in progress.
+ */
+export function isMountChanging(sessionId: string): boolean {
+	return changingMounts.has(sessionId)
+}
+
+const DEFAULT_READY_TIMEOUT_MS = 10000
+const DEFAULT_RESTART: MountRestartOptions = {
+	maxRestarts: 5,
+	initialBackoffMs: 500,
+	maxBackoffMs: 30000,
+}
+const DEFAULT_UNMOUNT: UnmountOptions = {
+	retries: 3,
+	initialBackoffMs: 200,
+	lazyFallback: true,
+	listHolders: true,
+}
+const READY_POLL_INTERVAL_MS = 50
+// How long a stopped supervisor gets to unmount on its own before we do
+const SUPERVISOR_EXIT_TIMEOUT_MS = 2000
+// Only the tail of the daemon's stderr is kept
+const MAX_CAPTURED_LENGTH = 4096
+
+interface CapturedOutput {
+	text(): string
+	/** Resolves once the stream has ended */
+	done: Promise<void>
+}
+
+/**
+ * Read a process's output stream in the background, keeping its last few kilobytes and
+ * passing each complete line to onLine. A running daemon never closes its output, so it
+ * cannot be read to the end on demand.
+ */
+function captureOutput(
+	stream: ReadableStream<Uint8Array>,
+	onLine?: (line: string) => void,
+): CapturedOutput {
+	let text = ""
+	let partialLine = ""
+	const decoder = new TextDecoder()
+	const done = (async () => {
+		try {
+			for await (const chunk of stream) {
+				const decoded = decoder.decode(chunk, { stream: true })
+				text = (text + decoded).slice(-MAX_CAPTURED_LENGTH)
+				const lines = (partialLine + decoded).split("\n")
+				partialLine = lines.pop() ?? ""
+				for (const line of lines) {
+					if (line.trim()) onLine?.(line)
+				}
+			}
+		} catch {
+			// The stream closes with the process
+		}
+		if (partialLine.trim()) onLine?.(partialLine)
+	})()
+	return { text: () => text, done }
+}
+
+/**
+ * Decode the octal escapes (\040 for a space, \011, \012, \134) used in mount tables.
+ */
+function unescapeMountPath(path: string): string {
+	return path.replace(/\\([0-7]{3})/g, (_, octal: string) =>
+		String.fromCharCode(Number.parseInt(octal, 8)),
+	)
+}
+
+/**
+ * Parse the mount points out of /proc/<pid>/mountinfo. Each line reads
+ * `<id> <parent> <major:minor> <root> <mount point> <options> [optional...] - <fstype> ...`.
+ * Exported for testing.
+ */
+export function parseMountInfo(text: string): string[] {
+	const mountPoints: string[] = []
+	for (const line of text.split("\n")) {
+		const fields = line.split(" ")
+		if (fields.length >= 5 && fields.includes("-")) {
+			mountPoints.push(unescapeMountPath(fields[4] as string))
+		}
+	}
+	return mountPoints
+}
+
+/**
+ * Parse the mount points out of `mount` output (`<source> on <mount point> (...)` on macOS,
+ * `<source> on <mount point> type ...` on Linux). Exported for testing.
+ */
+export function parseMountOutput(text: string): string[] {
+	const mountPoints: string[] = []
+	for (const line of text.split("\n")) {
+		const match = line.match(/ on (.+?)(?: type \S+)? \(/)
+		if (match) {
+			mountPoints.push(match[1] as string)
+		}
+	}
+	return mountPoints
+}
+
+/**
+ * List the current mount points: from /proc/self/mountinfo on Linux,
+ * from the `mount` command elsewhere.
+ */
+async function readMountPoints(): Promise<string[]> {
+	if (existsSync("/proc/self/mountinfo")) {
+		return parseMountInfo(await readFile("/proc/self/mountinfo", "utf8"))
+	}
+	const proc = spawn(["mount"], { stdout: "pipe", stderr: "pipe" })
+	const stdout = await new Response(proc.stdout).text()
+	await proc.exited
+	return parseMountOutput(stdout)
+}
+
+/**
+ * Check if a directory is exactly a mount point (not just inside one).
+ */
+export async function isMountPoint(path: string): Promise<boolean> {
+	let target = resolve(path)
+	try {
+		target = await realpath(target)
+	} catch {
+		// A mount point that is not accessible is compared as given
+	}
+	const mountPoints = await readMountPoints()
+	return mountPoints.includes(target) || mountPoints.includes(resolve(path))
+}
+
+/**
+ * Poll the mount table until mountPath is mounted, the mount process fails or the
+ * timeout passes. Returns an error message including the daemon's stderr, or undefined
+ * once the mount is ready.
+ */
+async function waitForMount(
+	mountPath: string,
+	proc: Subprocess,
+	stderr: CapturedOutput,
+	timeoutMs: number,
+	client?: LoggingClient,
+): Promise<string | undefined> {
+	const startedAt = Date.now()
+	for (;;) {
+		if (await isMountPoint(mountPath)) {
+			log(client, "debug", `Mount ready after ${Date.now() - startedAt}ms`)
+			return undefined
+		}
+		if (proc.exitCode !== null && proc.exitCode !== 0) {
+			await stderr.done
+			return `Mount process exited with code ${proc.exitCode}: ${stderr.text().trim() || "unknown error"}`
+		}
+		if (Date.now() - startedAt >= timeoutMs) {
+			return `Mount not ready after ${timeoutMs}ms at ${mountPath}: ${stderr.text().trim() || "no output from agentfs"}`
+		}
+		await Bun.sleep(READY_POLL_INTERVAL_MS)
+	}
+}
+
 /**
  * Build the command arguments for `agentfs init`.
  * Exported for testing.
  */
-export function buildInitCommand(sessionId: string, basePath: string): string[] {
-	return ["agentfs", "init", sessionId, "--base", basePath]
+export function buildInitCommand(
+	sessionId: string,
+	basePath: string,
+	cli: AgentFSCliOptions = DEFAULT_CLI,
+): string[] {
+	return [cli.path, "init", sessionId, "--base", basePath, ...cli.initArgs]
 }
 
 /**
- * Build a shell command that runs agentfs mount with a watchdog.
- * The watchdog monitors the parent PID and kills the mount when parent dies.
- * This ensures cleanup even if exit handlers don't fire.
+ * Build the `agentfs mount` command, run in the foreground (-f) so the supervisor
+ * owns the FUSE daemon. Exported for testing.
  */
 export function buildMountCommand(
 	sessionId: string,
 	mountPath: string,
-	parentPid: number,
+	cli: AgentFSCliOptions = DEFAULT_CLI,
 ): string[] {
-	// Shell script that:
-	// 1. Runs agentfs mount in background with -f (foreground mode for FUSE)
-	// 2. Monitors the parent PID
-	// 3. Kills the mount process when parent dies
-	const script = `
-agentfs mount ${sessionId} ${mountPath} -f --auto-unmount &
-MOUNT_PID=$!
-while kill -0 ${parentPid} 2>/dev/null; do sleep 1; done
-kill $MOUNT_PID 2>/dev/null
-fusermount -u ${mountPath} 2>/dev/null
-`
-	return ["sh", "-c", script]
-}
-
-export async function isAgentFSInstalled(): Promise<boolean> {
-	try {
-		const proc = spawn(["which", "agentfs"], {
-			stdout: "pipe",
-			stderr: "pipe",
-		})
-		const exitCode = await proc.exited
-		return exitCode === 0
-	} catch {
-		return false
+	return [cli.path, "mount", sessionId, mountPath, "-f", "--auto-unmount", ...cli.mountArgs]
+}
+
+/**
+ * Find the supervisor script: next to this module when running from source,
+ * under agentfs/ next to the bundle when running from dist.
+ */
+function findSupervisorScript(): string {
+	for (const candidate of ["./supervisor.ts", "./agentfs/supervisor.js"]) {
+		const path = fileURLToPath(new URL(candidate, import.meta.url))
+		if (existsSync(path)) {
+			return path
+		}
 	}
+	throw new Error("AgentFS mount supervisor script not found")
 }
 
-export async function mountOverlay(
+/**
+ * Build the command that runs a mount command under the supervisor, which restarts it
+ * with backoff and stops it when parentPid dies. Options travel as a JSON argument, so
+ * paths and session IDs are never parsed by a shell. Exported for testing.
+ */
+export function buildSupervisorCommand(options: SupervisorOptions): string[] {
+	return [process.execPath, findSupervisorScript(), JSON.stringify(options)]
+}
+
+/**
+ * Check if this host can mount FUSE overlays (Linux with /dev/fuse).
+ */
+export function isFuseAvailable(): boolean {
+	return platform() === "linux" && existsSync("/dev/fuse")
+}
+
+/**
+ * Check if the agentfs CLI (by default `agentfs` on PATH) exists and is executable.
+ */
+export async function isAgentFSInstalled(cli: AgentFSCliOptions = DEFAULT_CLI): Promise<boolean> {
+	return findAgentFSBinary(cli) !== undefined
+}
+
+/**
+ * Check the CLI is installed and initialize the session database with the project as base.
+ */
+async function prepareOverlay(
 	mount: MountInfo,
 	projectPath: string,
 	client?: LoggingClient,
 ): Promise<void> {
-	if (mount.mounted) {
-		log(client, "debug", `Mount already active for session ${mount.sessionId}`)
-		return
+	log(client, "debug", `Checking the AgentFS CLI`)
+	const cliError = await checkAgentFSCli(mount.cli, client)
+	if (cliError) {
+		log(client, "error", cliError)
+		throw new Error(cliError)
 	}
 
-	log(client, "debug", `Checking if AgentFS CLI is installed`)
-	const installed = await isAgentFSInstalled()
-	if (!installed) {
-		log(client, "error", `AgentFS CLI not found`)
-		throw new Error("AgentFS CLI not found. Install with: cargo install agentfs-cli")
-	}
-	log(client, "debug", `AgentFS CLI found`)
-
 	// Initialize AgentFS with project as base
 	// Run from project root so the CLI creates .agentfs/ in the right place
-	const initCmd = buildInitCommand(mount.sessionId, projectPath)
+	const initCmd = buildInitCommand(mount.sessionId, projectPath, mount.cli)
 	log(client, "debug", `Running init command: ${initCmd.join(" ")}`, { cwd: projectPath })
 	const initProc = spawn(initCmd, {
 		stdout: "pipe",
 		stderr: "pipe",
 		cwd: projectPath,
+		env: cliEnv(mount.cli),
 	})
 
 	const initExitCode = await initProc.exited
@@ -104,164 +305,428 @@ export async function mountOverlay(
 	} else {
 		log(client, "debug", `AgentFS initialized successfully`)
 	}
+}
 
-	// Mount the overlay with a watchdog that monitors parent PID
+/**
+ * Start the FUSE daemon for the session's overlay.
+ */
+async function startOverlay(
+	mount: MountInfo,
+	projectPath: string,
+	client?: LoggingClient,
+): Promise<void> {
+	// Mount the overlay under a supervisor that restarts it and stops it if we die
 	// Run from project root to find the .agentfs/ database
-	const mountCmd = buildMountCommand(mount.sessionId, mount.mountPath, process.pid)
-	log(client, "debug", `Running mount command with watchdog (parent PID: ${process.pid})`, {
+	const restart = mount.restart ?? DEFAULT_RESTART
+	const mountCmd = buildMountCommand(mount.sessionId, mount.mountPath, mount.cli)
+	const supervisorCmd = buildSupervisorCommand({
+		command: mountCmd,
+		cwd: projectPath,
+		mountPath: mount.mountPath,
+		parentPid: process.pid,
+		...restart,
+	})
+	log(client, "debug", `Running mount command under supervisor (parent PID: ${process.pid})`, {
+		command: mountCmd,
 		cwd: projectPath,
 	})
-	const mountProc = spawn(mountCmd, {
+	const mountProc = spawn(supervisorCmd, {
 		stdout: "pipe",
 		stderr: "pipe",
 		cwd: projectPath,
+		// Lets a standalone Bun executable (e.g. OpenCode's) run the script like bun itself
+		env: { ...cliEnv(mount.cli), BUN_BE_BUN: "1" },
 	})
+	const forward = (level: "debug" | "info") => (line: string) =>
+		log(client, level, `agentfs mount: ${line}`, { sessionId: mount.sessionId })
+	captureOutput(mountProc.stdout, forward("debug"))
+	const stderr = captureOutput(mountProc.stderr, forward("info"))
 
 	mountProcesses.set(mount.sessionId, mountProc)
+	mountErrors.set(mount.sessionId, stderr)
+	mount.pid = mountProc.pid
 	log(client, "debug", `Mount process started with PID ${mountProc.pid}`)
 
-	// Wait a bit for mount to be ready
-	log(client, "debug", `Waiting for mount to be ready...`)
-	await Bun.sleep(500)
-
-	// Verify mount is accessible and FUSE process is running
-	log(client, "debug", `Verifying mount at ${mount.mountPath}`)
-	const mountError = await verifyMount(mount.mountPath, mountProc, client)
-	if (mountError) {
-		mount.error = mountError
-		log(client, "error", `Mount verification failed: ${mountError}`)
-		throw new Error(mountError)
+	const timeoutMs = mount.readyTimeoutMs ?? DEFAULT_READY_TIMEOUT_MS
+	log(client, "debug", `Waiting up to ${timeoutMs}ms for the mount to be ready`)
+	const error = await waitForMount(mount.mountPath, mountProc, stderr, timeoutMs, client)
+	if (error) {
+		log(client, "error", `Mount did not become ready`, { error })
+		mountProc.kill()
+		mountProcesses.delete(mount.sessionId)
+		mountErrors.delete(mount.sessionId)
+		mount.pid = undefined
+		mount.error = error
+		throw new Error(error)
 	}
-
-	mount.mounted = true
-	mount.pid = mountProc.pid
-	mount.error = undefined
-	log(client, "info", `Mount successful`, { mountPath: mount.mountPath, pid: mountProc.pid })
 }
 
-async function verifyMount(
-	mountPath: string,
-	proc: Subprocess,
+/**
+ * Verify the overlay is accessible and the FUSE process is running.
+ */
+async function verifyOverlay(
+	mount: MountInfo,
 	client?: LoggingClient,
 ): Promise<string | undefined> {
-	// Check if process exited with an error (non-zero exit code)
-	if (proc.exitCode !== null) {
-		let stderrText = ""
-		if (proc.stderr && typeof proc.stderr !== "number") {
-			stderrText = await new Response(proc.stderr).text()
-		}
+	// Mounts adopted from a previous OpenCode process have no mount process here
+	const proc = mountProcesses.get(mount.sessionId)
+	log(client, "debug", `Verifying mount at ${mount.mountPath}`)
 
-		// Exit code 0 is success - daemon may have forked and parent exited
-		// Continue to verify the mount point is actually accessible
-		if (proc.exitCode !== 0) {
-			const error = `Mount process exited with code ${proc.exitCode}: ${stderrText.trim() || "unknown error"}`
-			log(client, "debug", `Mount process failed`, {
-				exitCode: proc.exitCode,
-				stderr: stderrText,
-			})
-			return error
-		}
-		log(client, "debug", `Mount process exited with code 0 (daemon likely forked)`)
-	} else {
-		log(client, "debug", `Mount process still running`)
+	// Exit code 0 is success - the daemon may have forked and its parent exited
+	if (proc && proc.exitCode !== null && proc.exitCode !== 0) {
+		const stderr = mountErrors.get(mount.sessionId)
+		await stderr?.done
+		const error = `Mount process exited with code ${proc.exitCode}: ${stderr?.text().trim() || "unknown error"}`
+		log(client, "debug", `Mount process failed`, { exitCode: proc.exitCode })
+		return error
 	}
 
-	// Check if mount point is accessible
 	try {
-		await access(mountPath, constants.R_OK)
-		log(client, "debug", `Mount point is accessible`)
+		await access(mount.mountPath, constants.R_OK)
 	} catch {
 		log(client, "debug", `Mount point not accessible`)
-		return `Mount point not accessible: ${mountPath}`
+		return `Mount point not accessible: ${mount.mountPath}`
 	}
 
-	// Verify it's actually a FUSE mount by checking /proc/mounts (Linux) or mount command (macOS)
 	try {
-		const checkProc = spawn(["mount"], { stdout: "pipe", stderr: "pipe" })
-		const stdout = await new Response(checkProc.stdout).text()
-		await checkProc.exited
-
-		if (!stdout.includes(mountPath)) {
+		if (!(await isMountPoint(mount.mountPath))) {
 			log(client, "debug", `Mount point exists but not in mount table`)
-			return `Mount point exists but is not a FUSE mount: ${mountPath}`
+			return `Mount point exists but is not a FUSE mount: ${mount.mountPath}`
 		}
-		log(client, "debug", `Verified FUSE mount in mount table`)
 	} catch (err) {
-		// If mount check fails, rely on access check above
-		log(client, "debug", `Could not verify FUSE mount via mount command: ${err}`)
+		// If the mount table cannot be read, rely on the access check above
+		log(client, "debug", `Could not read the mount table: ${err}`)
 	}
-
 	return undefined
 }
 
-export async function unmountOverlay(mount: MountInfo, client?: LoggingClient): Promise<void> {
-	if (!mount.mounted) {
-		log(client, "debug", `Mount not active for session ${mount.sessionId}, nothing to unmount`)
-		return
+/**
+ * A process keeping a mount point in use.
+ */
+export interface MountHolder {
+	pid: number
+	command: string
+}
+
+/**
+ * Whether unmount output says the mount point is still in use ("Device or resource busy"
+ * from fusermount, "target is busy" from umount). Exported for testing.
+ */
+export function isBusyError(output: string): boolean {
+	return /busy/i.test(output)
+}
+
+/**
+ * Find the processes whose working directory, root or open files are at or under
+ * mountPath by reading the links in /proc. Processes of other users are skipped, as their
+ * links cannot be read. Returns an empty list where /proc does not exist.
+ */
+export async function findMountHolders(mountPath: string): Promise<MountHolder[]> {
+	let target = resolve(mountPath)
+	try {
+		target = await realpath(target)
+	} catch {
+		// A dead FUSE endpoint cannot be resolved; /proc shows it as given
 	}
+	const isInside = (link: string) => link === target || link.startsWith(`${target}/`)
+
+	let pids: string[]
+	try {
+		pids = (await readdir("/proc")).filter((name) => /^\d+$/.test(name))
+	} catch {
+		return []
+	}
+
+	const holders: MountHolder[] = []
+	for (const pid of pids) {
+		const procDir = `/proc/${pid}`
+		let links = [`${procDir}/cwd`, `${procDir}/root`]
+		try {
+			links = links.concat((await readdir(`${procDir}/fd`)).map((fd) => `${procDir}/fd/${fd}`))
+		} catch {
+			// Not our process, or it already exited
+		}
+
+		for (const link of links) {
+			let linkTarget: string
+			try {
+				linkTarget = await readlink(link)
+			} catch {
+				continue
+			}
+			if (isInside(linkTarget)) {
+				let command = "unknown"
+				try {
+					command = (await readFile(`${procDir}/comm`, "utf8")).trim()
+				} catch {
+					// The process exited while we looked at it
+				}
+				holders.push({ pid: Number(pid), command })
+				break
+			}
+		}
+	}
+	return holders
+}
 
-	log(client, "debug", `Unmounting overlay for session ${mount.sessionId}`)
+function formatHolders(holders: MountHolder[]): string {
+	return holders.map((holder) => `${holder.pid} (${holder.command})`).join(", ")
+}
 
+/**
+ * Run fusermount (Linux), then umount (macOS) if that fails. Lazy unmounts detach the
+ * mount point right away and release it once nothing uses it anymore.
+ * Returns undefined on success, otherwise the commands' error output.
+ */
+export async function runUnmount(mountPath: string, lazy: boolean): Promise<string | undefined> {
+	const commands = lazy
+		? [
+				["fusermount", "-uz", mountPath],
+				["umount", "-l", mountPath],
+			]
+		: [
+				["fusermount", "-u", mountPath],
+				["umount", mountPath],
+			]
+	const errors: string[] = []
+	for (const command of commands) {
+		try {
+			const proc = spawn(command, { stdout: "ignore", stderr: "pipe" })
+			const [stderr, exitCode] = await Promise.all([new Response(proc.stderr).text(), proc.exited])
+			if (exitCode === 0) {
+				return undefined
+			}
+			errors.push(stderr.trim() || `${command.join(" ")} exited with code ${exitCode}`)
+		} catch (err) {
+			errors.push(`${command[0]}: ${err}`)
+		}
+	}
+	return errors.join("; ")
+}
+
+/**
+ * Stop the FUSE daemon and unmount the overlay. While the mount point is busy (e.g. a
+ * shell still has its working directory inside) the unmount is retried with backoff,
+ * then detached lazily if mount.unmount allows it; the lazy outcome is left in
+ * mount.error. Throws if the overlay stays mounted.
+ */
+async function stopOverlay(mount: MountInfo, client?: LoggingClient): Promise<void> {
 	const proc = mountProcesses.get(mount.sessionId)
 	if (proc) {
 		log(client, "debug", `Killing mount process with PID ${proc.pid}`)
 		proc.kill()
 		mountProcesses.delete(mount.sessionId)
+		mountErrors.delete(mount.sessionId)
+		// The supervisor unmounts when it stops; racing it would only report a spurious error
+		await Promise.race([proc.exited, Bun.sleep(SUPERVISOR_EXIT_TIMEOUT_MS)])
 	}
 
-	// Try fusermount -u first (Linux), then umount (macOS)
-	try {
-		log(client, "debug", `Trying fusermount -u ${mount.mountPath}`)
-		const unmountProc = spawn(["fusermount", "-u", mount.mountPath], {
-			stdout: "pipe",
-			stderr: "pipe",
-		})
-		const exitCode = await unmountProc.exited
-		if (exitCode === 0) {
-			log(client, "debug", `fusermount succeeded`)
-		} else {
-			log(client, "debug", `fusermount failed with exit code ${exitCode}, trying umount`)
-			throw new Error("fusermount failed")
+	const options = mount.unmount ?? DEFAULT_UNMOUNT
+	let error: string | undefined
+	for (let attempt = 0; ; attempt++) {
+		if (!(await isMountPoint(mount.mountPath))) {
+			log(client, "debug", `${mount.mountPath} is unmounted`)
+			return
 		}
-	} catch {
-		// Try macOS umount
-		try {
-			log(client, "debug", `Trying umount ${mount.mountPath}`)
-			const unmountProc = spawn(["umount", mount.mountPath], {
-				stdout: "pipe",
-				stderr: "pipe",
-			})
-			const exitCode = await unmountProc.exited
-			if (exitCode === 0) {
-				log(client, "debug", `umount succeeded`)
-			} else {
-				log(client, "warn", `umount failed with exit code ${exitCode}`)
-			}
-		} catch (err) {
-			// Ignore unmount errors
-			log(client, "warn", `Failed to unmount: ${err}`)
+		log(client, "debug", `Unmounting ${mount.mountPath}`, { attempt: attempt + 1 })
+		error = await runUnmount(mount.mountPath, false)
+		if (!error) {
+			log(client, "debug", `Unmount succeeded`)
+			return
+		}
+		if (!isBusyError(error) || attempt >= options.retries) {
+			break
 		}
+		const delay = options.initialBackoffMs * 2 ** attempt
+		log(client, "debug", `Mount point busy, retrying in ${delay}ms`, { error })
+		await Bun.sleep(delay)
+	}
+
+	// The failed command may have raced an unmount that did go through
+	if (!(await isMountPoint(mount.mountPath))) {
+		return
+	}
+
+	let problem = `Could not unmount ${mount.mountPath}: ${error}`
+	if (isBusyError(error) && options.listHolders) {
+		const holders = await findMountHolders(mount.mountPath)
+		if (holders.length > 0) {
+			problem += ` (in use by ${formatHolders(holders)})`
+		}
+	}
+	if (!options.lazyFallback) {
+		log(client, "error", problem)
+		throw new Error(problem)
+	}
+
+	log(client, "warn", `${problem}, detaching it lazily`)
+	const lazyError = await runUnmount(mount.mountPath, true)
+	if (lazyError) {
+		const failure = `${problem}; lazy unmount failed too: ${lazyError}`
+		log(client, "error", failure)
+		throw new Error(failure)
+	}
+	mount.error = `${problem}. Detached it lazily; it is released once nothing uses it`
+}
+
+/**
+ * The AgentFS overlay mounted through FUSE by the agentfs CLI.
+ * The daemon keeps the session database locked while mounted.
+ */
+export const fuseBackend: MountBackend = {
+	name: "fuse",
+	holdsDatabaseLock: true,
+	isSupported: isFuseAvailable,
+	prepare: prepareOverlay,
+	mount: startOverlay,
+	verify: verifyOverlay,
+	unmount: stopOverlay,
+	// The overlay's contents live in the session database
+	discard: async () => {},
+	status: async (mount) => ({
+		backend: "fuse",
+		mounted: mount.mounted,
+		mountPath: mount.mountPath,
+		projectPath: mount.projectPath,
+		pid: mount.pid,
+	}),
+}
+
+const backends: Record<MountBackendName, MountBackend> = {
+	fuse: fuseBackend,
+	"git-worktree": worktreeBackend,
+}
+
+export function getMountBackend(name: MountBackendName = "fuse"): MountBackend {
+	return backends[name]
+}
+
+/**
+ * Record the mount's state in the mount registry, or remove it when state is undefined.
+ * The registry only helps recover from crashes, so failing to write it never fails a mount.
+ */
+async function updateRegistry(
+	mount: MountInfo,
+	state: "mounting" | "mounted" | undefined,
+	client?: LoggingClient,
+): Promise<void> {
+	try {
+		await (state ? recordMount(mount, state) : forgetMount(mount))
+	} catch (err) {
+		log(client, "warn", `Could not update the mount registry: ${err}`)
+	}
+}
+
+async function mountWith(
+	backend: MountBackend,
+	mount: MountInfo,
+	projectPath: string,
+	client?: LoggingClient,
+): Promise<void> {
+	if (mount.mounted) {
+		log(client, "debug", `Mount already active for session ${mount.sessionId}`)
+		return
+	}
+
+	log(client, "debug", `Mounting session ${mount.sessionId} with the ${backend.name} backend`)
+	changingMounts.add(mount.sessionId)
+	await updateRegistry(mount, "mounting", client)
+	try {
+		await backend.prepare(mount, projectPath, client)
+		await backend.mount(mount, projectPath, client)
+
+		const mountError = await backend.verify(mount, client)
+		if (mountError) {
+			mount.error = mountError
+			log(client, "error", `Mount verification failed: ${mountError}`)
+			throw new Error(mountError)
+		}
+	} catch (err) {
+		await updateRegistry(mount, undefined, client)
+		throw err
+	} finally {
+		changingMounts.delete(mount.sessionId)
+	}
+
+	mount.mounted = true
+	mount.error = undefined
+	mount.lost = undefined
+	await updateRegistry(mount, "mounted", client)
+	log(client, "info", `Mount successful`, {
+		backend: backend.name,
+		mountPath: mount.mountPath,
+		pid: mount.pid,
+	})
+}
+
+async function unmountWith(
+	backend: MountBackend,
+	mount: MountInfo,
+	client?: LoggingClient,
+): Promise<void> {
+	if (!mount.mounted) {
+		log(client, "debug", `Mount not active for session ${mount.sessionId}, nothing to unmount`)
+		return
+	}
+
+	log(client, "debug", `Unmounting ${backend.name} sandbox for session ${mount.sessionId}`)
+	changingMounts.add(mount.sessionId)
+	mount.error = undefined
+	try {
+		await backend.unmount(mount, client)
+	} catch (err) {
+		// Still mounted: report why instead of pretending the unmount worked
+		mount.error = err instanceof Error ? err.message : String(err)
+		throw err
+	} finally {
+		changingMounts.delete(mount.sessionId)
 	}
 
 	mount.mounted = false
 	mount.pid = undefined
+	await updateRegistry(mount, undefined, client)
 	log(client, "info", `Unmount completed for session ${mount.sessionId}`)
 }
 
+/**
+ * Mount the session's sandbox with the backend recorded in mount.backend.
+ */
+export async function mountSandbox(
+	mount: MountInfo,
+	projectPath: string,
+	client?: LoggingClient,
+): Promise<void> {
+	await mountWith(getMountBackend(mount.backend), mount, projectPath, client)
+}
+
+/**
+ * Unmount the session's sandbox. Throws, with the reason also left in mount.error, if
+ * it stays mounted.
+ */
+export async function unmountSandbox(mount: MountInfo, client?: LoggingClient): Promise<void> {
+	await unmountWith(getMountBackend(mount.backend), mount, client)
+}
+
+/**
+ * Mount the session's AgentFS overlay through FUSE:
+ * agentfs init --base <projectPath> && agentfs mount
+ */
+export async function mountOverlay(
+	mount: MountInfo,
+	projectPath: string,
+	client?: LoggingClient,
+): Promise<void> {
+	await mountWith(fuseBackend, mount, projectPath, client)
+}
+
+export async function unmountOverlay(mount: MountInfo, client?: LoggingClient): Promise<void> {
+	await unmountWith(fuseBackend, mount, client)
+}
+
 export function isMounted(mount: MountInfo): boolean {
 	return mount.mounted
 }
 
-export async function getMountStatus(mount: MountInfo): Promise<{
-	mounted: boolean
-	mountPath: string
-	projectPath: string
-	pid?: number
-}> {
-	return {
-		mounted: mount.mounted,
-		mountPath: mount.mountPath,
-		projectPath: mount.projectPath,
-		pid: mount.pid,
-	}
+export async function getMountStatus(mount: MountInfo): Promise<MountStatus> {
+	return getMountBackend(mount.backend).status(mount)
 }
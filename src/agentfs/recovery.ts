@@ -0,0 +1,143 @@
+import { access, constants, rm, stat } from "node:fs/promises"
+import { type LoggingClient, log } from "../log"
+import { getMountBackend, isMountPoint, runUnmount } from "./mount"
+import { isProcessAlive, type MountRecord, recordMount, updateMountRegistry } from "./registry"
+import type { MountInfo } from "./types"
+
+export interface RecoveryResult {
+	/** Sessions whose live mount is kept for the session to reattach to */
+	adopted: string[]
+	/** Mount points of dead owners that were lazily unmounted */
+	unmounted: string[]
+	/** Empty session databases left by interrupted setups */
+	removedDatabases: string[]
+}
+
+// Live mounts of dead owners, by session ID, until their session resumes
+const adoptableMounts = new Map<string, MountRecord>()
+
+/**
+ * Detach a mount point even if something still uses it.
+ */
+async function lazyUnmount(mountPath: string, client?: LoggingClient): Promise<boolean> {
+	const error = await runUnmount(mountPath, true)
+	if (error) {
+		log(client, "warn", `Could not unmount stale mount point ${mountPath}: ${error}`)
+	}
+	return !error
+}
+
+async function isAccessible(path: string): Promise<boolean> {
+	try {
+		await access(path, constants.R_OK)
+		return true
+	} catch {
+		return false
+	}
+}
+
+/**
+ * Delete a session database that was created but never written (zero bytes),
+ * along with its WAL files.
+ */
+async function removeEmptyDatabase(dbPath: string): Promise<boolean> {
+	try {
+		if ((await stat(dbPath)).size > 0) {
+			return false
+		}
+	} catch {
+		return false
+	}
+	for (const path of [dbPath, `${dbPath}-wal`, `${dbPath}-shm`]) {
+		await rm(path, { force: true })
+	}
+	return true
+}
+
+/**
+ * Clean up after OpenCode processes that died without unmounting (SIGKILL, crashes).
+ * Scans the mount registry under mountRoot for records whose owner is gone:
+ * - a live FUSE mount is kept and reattached when its session resumes
+ * - a stale one (daemon gone, mount point failing with ENOTCONN) is lazily unmounted
+ * - an empty database from a setup that never finished is removed
+ * Records of live owners (other OpenCode instances) are left alone.
+ */
+export async function recoverOrphanMounts(
+	mountRoot: string,
+	client?: LoggingClient,
+): Promise<RecoveryResult> {
+	const result: RecoveryResult = { adopted: [], unmounted: [], removedDatabases: [] }
+
+	await updateMountRegistry(mountRoot, async (records) => {
+		const kept: MountRecord[] = []
+		for (const record of records) {
+			if (record.ownerPid === process.pid || isProcessAlive(record.ownerPid)) {
+				kept.push(record)
+				continue
+			}
+
+			log(client, "info", `Found mount of a dead OpenCode process`, {
+				sessionId: record.sessionId,
+				mountPath: record.mountPath,
+				ownerPid: record.ownerPid,
+			})
+			if (record.backend === "fuse" && (await isMountPoint(record.mountPath))) {
+				if (record.state === "mounted" && (await isAccessible(record.mountPath))) {
+					adoptableMounts.set(record.sessionId, record)
+					result.adopted.push(record.sessionId)
+					kept.push(record)
+					continue
+				}
+				if (await lazyUnmount(record.mountPath, client)) {
+					result.unmounted.push(record.mountPath)
+				}
+			}
+			if (record.state === "mounting" && (await removeEmptyDatabase(record.dbPath))) {
+				result.removedDatabases.push(record.dbPath)
+			}
+		}
+		return kept
+	})
+
+	if (result.adopted.length + result.unmounted.length + result.removedDatabases.length > 0) {
+		log(client, "info", `Recovered orphaned mounts`, { ...result })
+	}
+	return result
+}
+
+/**
+ * Reattach a session to the live mount left by a dead OpenCode process, if there is one.
+ * The mount is verified again first; a mount that died since startup is unmounted so the
+ * session mounts afresh. Returns whether the session's sandbox is mounted.
+ */
+export async function adoptOrphanMount(mount: MountInfo, client?: LoggingClient): Promise<boolean> {
+	const record = adoptableMounts.get(mount.sessionId)
+	if (
+		!record ||
+		record.mountPath !== mount.mountPath ||
+		record.backend !== (mount.backend ?? "fuse")
+	) {
+		return false
+	}
+	adoptableMounts.delete(mount.sessionId)
+
+	const error = await getMountBackend(record.backend).verify(mount, client)
+	if (error) {
+		log(client, "warn", `Orphaned mount is no longer usable: ${error}`)
+		await lazyUnmount(mount.mountPath, client)
+		return false
+	}
+
+	mount.mounted = true
+	mount.pid = undefined
+	mount.error = undefined
+	try {
+		await recordMount(mount, "mounted")
+	} catch (err) {
+		log(client, "warn", `Could not update the mount registry: ${err}`)
+	}
+	log(client, "info", `Reattached session ${mount.sessionId} to its existing mount`, {
+		mountPath: mount.mountPath,
+	})
+	return true
+}
@@ -0,0 +1,165 @@
+import { mkdir, open, readFile, rename, rm, stat, writeFile } from "node:fs/promises"
+import { dirname, join } from "node:path"
+import type { MountBackendName, MountInfo } from "./types"
+
+const REGISTRY_FILE = "registry.json"
+
+/**
+ * A mount recorded on disk, so a later OpenCode process can find it if the one that
+ * created it dies without cleaning up.
+ */
+export interface MountRecord {
+	sessionId: string
+	projectPath: string
+	mountPath: string
+	dbPath: string
+	backend: MountBackendName
+	/** PID of the OpenCode process that owns the mount */
+	ownerPid: number
+	/** PID of the mount process, if the backend runs one */
+	mountPid?: number
+	/** "mounting" until the mount is verified, so interrupted setups can be told apart */
+	state: "mounting" | "mounted"
+	updatedAt: number
+}
+
+const LOCK_RETRY_MS = 20
+const LOCK_TIMEOUT_MS = 5000
+// A lock held this long was left by a process that died while updating
+const STALE_LOCK_MS = 10_000
+
+// Registry updates run one at a time so concurrent mounts do not drop each other's records;
+// the lock file does the same across OpenCode processes sharing the mountPath
+let pendingUpdate: Promise<unknown> = Promise.resolve()
+
+/**
+ * The registry file for mount points under mountRoot (the configured mountPath).
+ */
+export function getRegistryPath(mountRoot: string): string {
+	return join(mountRoot, REGISTRY_FILE)
+}
+
+/**
+ * Read the mount records under mountRoot. A missing or unreadable registry is empty.
+ */
+export async function readMountRegistry(mountRoot: string): Promise<MountRecord[]> {
+	try {
+		const records = JSON.parse(await readFile(getRegistryPath(mountRoot), "utf8"))
+		return Array.isArray(records) ? records : []
+	} catch {
+		return []
+	}
+}
+
+async function writeMountRegistry(mountRoot: string, records: MountRecord[]): Promise<void> {
+	const path = getRegistryPath(mountRoot)
+	await mkdir(mountRoot, { recursive: true })
+	// Write then rename, so a crash never leaves a truncated registry
+	const temporary = `${path}.${process.pid}.tmp`
+	await writeFile(temporary, `${JSON.stringify(records, null, 2)}\n`)
+	await rename(temporary, path)
+}
+
+/**
+ * Whether a registry lock was left behind: its owner exited or it is older than any update.
+ */
+async function isStaleLock(lockPath: string): Promise<boolean> {
+	try {
+		const [owner, stats] = await Promise.all([readFile(lockPath, "utf8"), stat(lockPath)])
+		const pid = Number.parseInt(owner, 10)
+		return (pid > 0 && !isProcessAlive(pid)) || Date.now() - stats.mtimeMs > STALE_LOCK_MS
+	} catch {
+		// Released in the meantime
+		return false
+	}
+}
+
+/**
+ * Take the lock file of the registry under mountRoot, waiting for other processes to
+ * release it. Returns a function that releases it.
+ */
+async function lockMountRegistry(mountRoot: string): Promise<() => Promise<void>> {
+	const lockPath = `${getRegistryPath(mountRoot)}.lock`
+	await mkdir(mountRoot, { recursive: true })
+	const deadline = Date.now() + LOCK_TIMEOUT_MS
+	for (;;) {
+		try {
+			const handle = await open(lockPath, "wx")
+			await handle.writeFile(String(process.pid))
+			await handle.close()
+			return () => rm(lockPath, { force: true })
+		} catch (err) {
+			if ((err as NodeJS.ErrnoException).code !== "EEXIST") {
+				throw err
+			}
+		}
+
+		if (await isStaleLock(lockPath)) {
+			await rm(lockPath, { force: true })
+			continue
+		}
+		if (Date.now() > deadline) {
+			throw new Error(`Timed out waiting for the mount registry lock: ${lockPath}`)
+		}
+		await Bun.sleep(LOCK_RETRY_MS)
+	}
+}
+
+/**
+ * Replace the records under mountRoot with what update returns.
+ */
+export function updateMountRegistry(
+	mountRoot: string,
+	update: (records: MountRecord[]) => MountRecord[] | Promise<MountRecord[]>,
+): Promise<void> {
+	const run = pendingUpdate.then(async () => {
+		const unlock = await lockMountRegistry(mountRoot)
+		try {
+			const records = await readMountRegistry(mountRoot)
+			await writeMountRegistry(mountRoot, await update(records))
+		} finally {
+			await unlock()
+		}
+	})
+	pendingUpdate = run.catch(() => {})
+	return run
+}
+
+/**
+ * Record a mount as owned by this process.
+ */
+export function recordMount(mount: MountInfo, state: MountRecord["state"]): Promise<void> {
+	const record: MountRecord = {
+		sessionId: mount.sessionId,
+		projectPath: mount.projectPath,
+		mountPath: mount.mountPath,
+		dbPath: mount.dbPath,
+		backend: mount.backend ?? "fuse",
+		ownerPid: process.pid,
+		mountPid: mount.pid,
+		state,
+		updatedAt: Date.now(),
+	}
+	return updateMountRegistry(dirname(mount.mountPath), (records) => [
+		...records.filter((existing) => existing.mountPath !== mount.mountPath),
+		record,
+	])
+}
+
+export function forgetMount(mount: MountInfo): Promise<void> {
+	return updateMountRegistry(dirname(mount.mountPath), (records) =>
+		records.filter((existing) => existing.mountPath !== mount.mountPath),
+	)
+}
+
+/**
+ * Check if a process exists. A process we may not signal (EPERM) still exists.
+ */
+export function isProcessAlive(pid: number): boolean {
+	try {
+		process.kill(pid, 0)
+		return true
+	} catch (err) {
+		return (err as NodeJS.ErrnoException).code === "EPERM"
+	}
+}
@@ -0,0 +1,82 @@
+import type { AgentFS } from "agentfs-sdk"
+import { type LoggingClient, log } from "../log"
+import { closeDatabase, getSession, openDatabase } from "./client"
+import { getMountBackend, mountSandbox, unmountSandbox } from "./mount"
+import { applyHiddenFiles } from "./secrets"
+import { flushToolCalls } from "./tool-calls"
+
+// Filesystem tables holding the overlay delta. fs_whiteout and fs_origin only
+// exist in databases created by `agentfs init --base`.
+const DELTA_TABLES = ["fs_dentry", "fs_data", "fs_symlink", "fs_whiteout", "fs_origin"]
+const ROOT_INO = 1
+
+/**
+ * Remove every file, directory and whiteout from the overlay delta, keeping the root inode.
+ * Other tables (kv store, tool calls) are left untouched so the session history survives.
+ */
+async function clearOverlayDelta(agent: AgentFS): Promise<void> {
+	const db = agent.getDatabase()
+	const rows = (await db
+		.prepare("SELECT name FROM sqlite_master WHERE type = 'table' AND name LIKE 'fs_%'")
+		.all()) as { name: string }[]
+	const existing = new Set(rows.map((row) => row.name))
+
+	await db.exec("BEGIN")
+	try {
+		for (const table of DELTA_TABLES) {
+			if (existing.has(table)) {
+				await db.exec(`DELETE FROM ${table}`)
+			}
+		}
+		await db.prepare("DELETE FROM fs_inode WHERE ino != ?").run(ROOT_INO)
+		await db.exec("COMMIT")
+	} catch (err) {
+		await db.exec("ROLLBACK")
+		throw err
+	}
+}
+
+/**
+ * Throw away everything a session wrote and restart it from the untouched project.
+ * The session keeps its ID, context object and mount path, so path rewriting keeps working:
+ * - unmounts the sandbox (if mounted) so the database can be opened by the SDK
+ *   and discards what the mount backend keeps outside the database
+ * - clears the overlay delta in the session database
+ * - remounts the sandbox over the now empty delta and hides secret files again
+ */
+export async function resetSandbox(sessionId: string, client?: LoggingClient): Promise<void> {
+	const context = getSession(sessionId)
+	if (!context) {
+		throw new Error(`Session not found: ${sessionId}`)
+	}
+
+	const wasMounted = context.mount.mounted
+	log(client, "info", `Resetting sandbox for session ${sessionId}`, { wasMounted })
+
+	if (wasMounted) {
+		// Close the database BEFORE unmounting - the CLI needs exclusive access
+		await closeDatabase(sessionId)
+		await unmountSandbox(context.mount, client)
+		await getMountBackend(context.mount.backend).discard(context.mount, client)
+	}
+
+	await openDatabase(sessionId)
+	if (!context.agent) {
+		throw new Error(`Failed to open database for session ${sessionId}`)
+	}
+	await clearOverlayDelta(context.agent)
+	await context.agent.kv.set("session:resetAt", Date.now())
+	await flushToolCalls(sessionId)
+	log(client, "debug", `Cleared overlay delta in ${context.mount.dbPath}`)
+
+	if (wasMounted) {
+		// The FUSE daemon needs the database lock again
+		if (getMountBackend(context.mount.backend).holdsDatabaseLock) {
+			await closeDatabase(sessionId)
+		}
+		await mountSandbox(context.mount, context.projectPath, client)
+	}
+	await applyHiddenFiles(context)
+
+	log(client, "info", `Sandbox reset for session ${sessionId}`)
+}
@@ -0,0 +1,291 @@
+import { existsSync } from "node:fs"
+import { readdir, rm, rmdir, stat } from "node:fs/promises"
+import { join, resolve } from "node:path"
+import { AgentFS } from "agentfs-sdk"
+import type { AgentFSConfig } from "../config/schema"
+import { type LoggingClient, log } from "../log"
+import { listSandboxChanges } from "./changes"
+import { getCheckpointDir } from "./checkpoints"
+import { getAllSessions, getDbRoot, getMountPath, getMountRoot } from "./client"
+import { getMountBackend } from "./mount"
+import { isProcessAlive, readMountRegistry } from "./registry"
+import { findHiddenFiles } from "./secrets"
+import { getPendingToolCallsPath } from "./tool-calls"
+import type { MountInfo, SessionContext } from "./types"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface GarbageCollectionResult {
+	/** Session IDs whose databases were deleted */
+	removedSessions: string[]
+	/** Mount directories that were deleted */
+	removedMountDirs: string[]
+	/** Sessions past the retention limits kept because they have unapplied changes */
+	keptUnapplied: string[]
+	reclaimedBytes: number
+}
+
+interface StoredSession {
+	sessionId: string
+	dbPath: string
+	/** Size of the database with its WAL files */
+	bytes: number
+	lastUsedAt: number
+}
+
+/**
+ * Size and last write time of a database file and its -wal/-shm files.
+ */
+async function databaseUsage(dbPath: string): Promise<{ bytes: number; lastUsedAt: number }> {
+	let bytes = 0
+	let lastUsedAt = 0
+	for (const path of [dbPath, `${dbPath}-wal`, `${dbPath}-shm`]) {
+		try {
+			const stats = await stat(path)
+			bytes += stats.size
+			lastUsedAt = Math.max(lastUsedAt, stats.mtimeMs)
+		} catch {
+			// WAL files only exist while the database is in use
+		}
+	}
+	return { bytes, lastUsedAt }
+}
+
+/**
+ * List the session databases in the configured dbPath, newest first.
+ */
+async function listStoredSessions(
+	config: AgentFSConfig,
+	projectPath: string,
+): Promise<StoredSession[]> {
+	// A relative dbPath is relative to the project, where the agentfs CLI runs
+	const dbDir = resolve(projectPath, getDbRoot(config))
+	let entries: string[]
+	try {
+		entries = await readdir(dbDir)
+	} catch {
+		return []
+	}
+
+	const sessions: StoredSession[] = []
+	for (const entry of entries.filter((name) => name.endsWith(".db"))) {
+		const dbPath = join(dbDir, entry)
+		sessions.push({ sessionId: entry.slice(0, -3), dbPath, ...(await databaseUsage(dbPath)) })
+	}
+	return sessions.sort((a, b) => b.lastUsedAt - a.lastUsedAt)
+}
+
+// Files and directories a session leaves in dbPath: its database, WAL files,
+// spooled tool calls and checkpoints
+const SESSION_FILE = /^(.+?)\.(?:db(?:-wal|-shm|\.pending\.jsonl)?|checkpoints)$/
+
+/**
+ * The IDs of every session that left anything in the configured dbPath, with or without
+ * a database. mountPath may be shared by several projects, so only these sessions' mount
+ * directories belong to this project.
+ */
+async function listProjectSessionIds(
+	config: AgentFSConfig,
+	projectPath: string,
+): Promise<Set<string>> {
+	const ids = new Set<string>()
+	try {
+		for (const entry of await readdir(resolve(projectPath, getDbRoot(config)))) {
+			const match = entry.match(SESSION_FILE)
+			if (match) ids.add(match[1] as string)
+		}
+	} catch {
+		// No sessions yet
+	}
+	return ids
+}
+
+/**
+ * Sessions that must not be touched: open in this process, or mounted by another
+ * OpenCode process that is still running.
+ */
+async function listSessionsInUse(config: AgentFSConfig): Promise<Set<string>> {
+	const inUse = new Set(getAllSessions().map((context) => context.sessionId))
+	for (const record of await readMountRegistry(getMountRoot(config))) {
+		if (isProcessAlive(record.ownerPid)) {
+			inUse.add(record.sessionId)
+		}
+	}
+	return inUse
+}
+
+/**
+ * Whether a closed session's sandbox differs from its project: the worktree the
+ * git-worktree backend left in its mount directory, otherwise the overlay delta in its
+ * database. Secret files hidden by the path policy do not count. A session whose changes
+ * cannot be listed (the database does not open, its project is gone) counts as changed,
+ * so it is never deleted unseen.
+ */
+async function hasUnappliedChanges(
+	config: AgentFSConfig,
+	stored: StoredSession,
+	projectPath: string,
+	client?: LoggingClient,
+): Promise<boolean> {
+	let agent: AgentFS
+	try {
+		agent = await AgentFS.open({ id: stored.sessionId, path: stored.dbPath })
+	} catch (err) {
+		log(client, "warn", `Keeping session ${stored.sessionId}: its database did not open: ${err}`)
+		return true
+	}
+
+	try {
+		const sessionProject = (await agent.kv.get("session:projectPath")) ?? projectPath
+		if (typeof sessionProject !== "string" || !existsSync(sessionProject)) {
+			log(client, "warn", `Keeping session ${stored.sessionId}: its project is gone`, {
+				projectPath: sessionProject,
+			})
+			return true
+		}
+		const mountPath = getMountPath(config, stored.sessionId)
+		const worktree = existsSync(join(mountPath, ".git"))
+		const context: SessionContext = {
+			sessionId: stored.sessionId,
+			projectPath: sessionProject,
+			agent,
+			mount: {
+				sessionId: stored.sessionId,
+				projectPath: sessionProject,
+				mountPath,
+				dbPath: stored.dbPath,
+				mounted: worktree,
+				backend: worktree ? "git-worktree" : undefined,
+			},
+			hiddenPaths: new Set(await findHiddenFiles(sessionProject, config.pathPolicy.hide)),
+		}
+		return (await listSandboxChanges(context)).length > 0
+	} catch (err) {
+		log(
+			client,
+			"warn",
+			`Keeping session ${stored.sessionId}: its changes could not be listed: ${err}`,
+		)
+		return true
+	} finally {
+		await agent.close()
+	}
+}
+
+/**
+ * Delete a session's mount directory, removing its worktree first when the
+ * git-worktree backend left one. Directories with anything else in them are kept.
+ */
+async function removeMountDir(
+	config: AgentFSConfig,
+	sessionId: string,
+	projectPath: string,
+	client?: LoggingClient,
+): Promise<boolean> {
+	const mountPath = getMountPath(config, sessionId)
+	if (!existsSync(mountPath)) {
+		return false
+	}
+	if (existsSync(join(mountPath, ".git"))) {
+		const mount: MountInfo = {
+			sessionId,
+			projectPath,
+			mountPath,
+			dbPath: "",
+			mounted: false,
+			backend: "git-worktree",
+		}
+		try {
+			await getMountBackend("git-worktree").discard(mount, client)
+		} catch (err) {
+			log(client, "warn", `Could not remove the worktree at ${mountPath}: ${err}`)
+			return false
+		}
+	}
+	try {
+		await rmdir(mountPath)
+		return true
+	} catch {
+		return false
+	}
+}
+
+/**
+ * Delete session databases (and their mount directories) beyond the retention limits in
+ * config.retention: older than maxAgeDays, past the maxSessions newest, or past
+ * maxTotalBytes counting from the newest. Sessions in use are never deleted, and with
+ * keepUnapplied neither are sessions whose changes were not applied to the project.
+ * Empty mount directories of this project's sessions without a database are removed as well.
+ */
+export async function collectGarbage(
+	config: AgentFSConfig,
+	projectPath: string,
+	client?: LoggingClient,
+): Promise<GarbageCollectionResult> {
+	const { maxAgeDays, maxSessions, maxTotalBytes, keepUnapplied } = config.retention
+	const result: GarbageCollectionResult = {
+		removedSessions: [],
+		removedMountDirs: [],
+		keptUnapplied: [],
+		reclaimedBytes: 0,
+	}
+
+	const stored = await listStoredSessions(config, projectPath)
+	const inUse = await listSessionsInUse(config)
+	const now = Date.now()
+	let kept = 0
+	let keptBytes = 0
+
+	for (const session of stored) {
+		const overLimit =
+			now - session.lastUsedAt > maxAgeDays * DAY_MS ||
+			kept >= maxSessions ||
+			keptBytes + session.bytes > maxTotalBytes
+		if (!overLimit || inUse.has(session.sessionId)) {
+			kept++
+			keptBytes += session.bytes
+			continue
+		}
+		if (keepUnapplied && (await hasUnappliedChanges(config, session, projectPath, client))) {
+			result.keptUnapplied.push(session.sessionId)
+			kept++
+			keptBytes += session.bytes
+			continue
+		}
+
+		for (const path of [
+			session.dbPath,
+			`${session.dbPath}-wal`,
+			`${session.dbPath}-shm`,
+			getPendingToolCallsPath(session.dbPath),
+			getCheckpointDir(session.dbPath, session.sessionId),
+		]) {
+			await rm(path, { recursive: true, force: true })
+		}
+		result.removedSessions.push(session.sessionId)
+		result.reclaimedBytes += session.bytes
+		if (await removeMountDir(config, session.sessionId, projectPath, client)) {
+			result.removedMountDirs.push(getMountPath(config, session.sessionId))
+		}
+	}
+
+	// Mount directories of this project's sessions whose database is gone
+	const storedIds = new Set(stored.map((session) => session.sessionId))
+	for (const sessionId of await listProjectSessionIds(config, projectPath)) {
+		if (storedIds.has(sessionId) || inUse.has(sessionId)) continue
+		const mountPath = getMountPath(config, sessionId)
+		try {
+			if ((await stat(mountPath)).isDirectory() && (await readdir(mountPath)).length === 0) {
+				await rmdir(mountPath)
+				result.removedMountDirs.push(mountPath)
+			}
+		} catch (err) {
+			log(client, "debug", `Skipping mount directory ${mountPath}: ${err}`)
+		}
+	}
+
+	log(client, "info", `Session garbage collection reclaimed ${result.reclaimedBytes} bytes`, {
+		...result,
+	})
+	return result
+}
@@ -0,0 +1,324 @@
+import type { Stats } from "node:fs"
+import { access, copyFile, lstat, mkdir, readdir, readFile, rm, writeFile } from "node:fs/promises"
+import { dirname, join } from "node:path"
+import type { AgentFS } from "agentfs-sdk"
+import type { SessionContext } from "./types"
+
+// Same layout as the whiteout table created by `agentfs init --base`
+const CREATE_WHITEOUT_TABLE = `
+CREATE TABLE IF NOT EXISTS fs_whiteout (
+	path TEXT PRIMARY KEY,
+	parent_path TEXT NOT NULL,
+	created_at INTEGER NOT NULL
+)`
+
+// Directories at the project root that never count as sandbox changes.
+// .agentfs holds the session databases themselves.
+const IGNORED_ROOT_ENTRIES = new Set([".agentfs"])
+// A worktree sandbox has a .git file pointing at the project's repository instead of the
+// project's .git directory, so .git never compares equal there and is not the session's
+const WORKTREE_IGNORED_ROOT_ENTRIES = new Set([".agentfs", ".git"])
+
+/**
+ * The root entries left out when comparing a session's sandbox with its project.
+ */
+export function getIgnoredRootEntries(context: SessionContext): Set<string> {
+	return context.mount.backend === "git-worktree"
+		? WORKTREE_IGNORED_ROOT_ENTRIES
+		: IGNORED_ROOT_ENTRIES
+}
+
+/**
+ * Recursively list files (and symlinks) under a host directory, leaving out the given
+ * entries at its root. Returns paths relative to root using "/" separators.
+ */
+export async function walkHost(
+	root: string,
+	relative = "",
+	ignored = IGNORED_ROOT_ENTRIES,
+): Promise<Map<string, Stats>> {
+	const files = new Map<string, Stats>()
+
+	let entries: string[]
+	try {
+		entries = await readdir(join(root, relative))
+	} catch {
+		return files
+	}
+
+	for (const name of entries) {
+		if (!relative && ignored.has(name)) continue
+
+		const path = relative ? `${relative}/${name}` : name
+		const stats = await lstat(join(root, path)).catch(() => undefined)
+		if (!stats) continue
+
+		if (stats.isDirectory()) {
+			for (const [child, childStats] of await walkHost(root, path, ignored)) {
+				files.set(child, childStats)
+			}
+		} else {
+			files.set(path, stats)
+		}
+	}
+
+	return files
+}
+
+/**
+ * Recursively list files in the overlay delta stored in the session database.
+ * Returns paths relative to the filesystem root using "/" separators.
+ */
+export async function walkDelta(
+	agent: AgentFS,
+	relative = "",
+): Promise<Map<string, { size: number; mtime: number }>> {
+	const files = new Map<string, { size: number; mtime: number }>()
+
+	let entries: string[]
+	try {
+		entries = await agent.fs.readdir(`/${relative}`)
+	} catch {
+		return files
+	}
+
+	for (const name of entries) {
+		if (!relative && IGNORED_ROOT_ENTRIES.has(name)) continue
+
+		const path = relative ? `${relative}/${name}` : name
+		const stats = await agent.fs.stat(`/${path}`).catch(() => undefined)
+		if (!stats) continue
+
+		if (stats.isDirectory()) {
+			for (const [child, childStats] of await walkDelta(agent, path)) {
+				files.set(child, childStats)
+			}
+		} else {
+			// AgentFS stores timestamps in seconds
+			files.set(path, { size: stats.size, mtime: stats.mtime * 1000 })
+		}
+	}
+
+	return files
+}
+
+/**
+ * Read whiteout entries (deleted paths) from the overlay delta.
+ * Returns an empty list if the database has no whiteout table (non-overlay database).
+ */
+export async function readWhiteouts(agent: AgentFS): Promise<string[]> {
+	try {
+		const rows = (await agent.getDatabase().prepare("SELECT path FROM fs_whiteout").all()) as {
+			path: string
+		}[]
+		return rows.map((row) => row.path.replace(/^\/+/, ""))
+	} catch {
+		return []
+	}
+}
+
+function noSandbox(context: SessionContext): Error {
+	return new Error(`Session ${context.sessionId} has no mounted overlay or open database`)
+}
+
+async function exists(path: string): Promise<boolean> {
+	return access(path).then(
+		() => true,
+		() => false,
+	)
+}
+
+function isWhitedOut(whiteouts: string[], path: string): boolean {
+	return whiteouts.some((whiteout) => path === whiteout || path.startsWith(`${whiteout}/`))
+}
+
+/**
+ * Hide a base file from the overlay by adding a whiteout entry.
+ */
+export async function addWhiteout(agent: AgentFS, path: string): Promise<void> {
+	const db = agent.getDatabase()
+	await db.exec(CREATE_WHITEOUT_TABLE)
+	const parent = dirname(`/${path}`)
+	await db
+		.prepare("INSERT OR REPLACE INTO fs_whiteout (path, parent_path, created_at) VALUES (?, ?, ?)")
+		.run(`/${path}`, parent, Math.floor(Date.now() / 1000))
+}
+
+async function removeWhiteout(agent: AgentFS, path: string): Promise<void> {
+	const db = agent.getDatabase()
+	await db.exec(CREATE_WHITEOUT_TABLE)
+	await db.prepare("DELETE FROM fs_whiteout WHERE path = ?").run(`/${path}`)
+}
+
+async function deleteDeltaFile(agent: AgentFS, path: string): Promise<void> {
+	try {
+		await agent.fs.deleteFile(`/${path}`)
+	} catch {
+		// Not in the delta - nothing to remove
+	}
+}
+
+/**
+ * Read a file's content as the session sees it, from the mount or the overlay delta.
+ * Path is relative to the project root.
+ */
+export async function readSandboxFile(context: SessionContext, path: string): Promise<Buffer> {
+	if (context.mount.mounted) {
+		return readFile(join(context.mount.mountPath, path))
+	}
+	if (context.agent) {
+		try {
+			return Buffer.from(await context.agent.fs.readFile(`/${path}`))
+		} catch (err) {
+			// Not in the delta - the base layer shows through unless it is whited out
+			if (isWhitedOut(await readWhiteouts(context.agent), path)) {
+				throw err
+			}
+			return readFile(join(context.projectPath, path))
+		}
+	}
+	throw noSandbox(context)
+}
+
+/**
+ * List every file the session sees, with sizes and modification times in milliseconds.
+ * Paths are relative to the project root.
+ */
+export async function listSandboxFiles(
+	context: SessionContext,
+): Promise<Map<string, { size: number; mtime: number }>> {
+	const toEntry = (stats: Stats) => ({ size: stats.size, mtime: stats.mtimeMs })
+
+	if (context.mount.mounted) {
+		const files = await walkHost(context.mount.mountPath, "", getIgnoredRootEntries(context))
+		return new Map([...files].map(([path, stats]) => [path, toEntry(stats)]))
+	}
+	if (context.agent) {
+		const [baseFiles, deltaFiles, whiteouts] = await Promise.all([
+			walkHost(context.projectPath, "", getIgnoredRootEntries(context)),
+			walkDelta(context.agent),
+			readWhiteouts(context.agent),
+		])
+		const files = new Map<string, { size: number; mtime: number }>()
+		for (const [path, stats] of baseFiles) {
+			if (!isWhitedOut(whiteouts, path)) files.set(path, toEntry(stats))
+		}
+		for (const [path, entry] of deltaFiles) {
+			files.set(path, entry)
+		}
+		return files
+	}
+	throw noSandbox(context)
+}
+
+/**
+ * List the files the session sees at or below a project-relative path: the path itself
+ * if it is a file, every file below it if it is a directory, nothing if it does not exist.
+ * Only that part of the sandbox is read.
+ */
+export async function listSandboxFilesUnder(
+	context: SessionContext,
+	path: string,
+): Promise<string[]> {
+	if (context.mount.mounted) {
+		const { mountPath } = context.mount
+		const stats = await lstat(join(mountPath, path)).catch(() => undefined)
+		if (!stats) return []
+		if (!stats.isDirectory()) return [path]
+		return [...(await walkHost(mountPath, path, getIgnoredRootEntries(context))).keys()].sort()
+	}
+	if (context.agent) {
+		const agent = context.agent
+		const whiteouts = await readWhiteouts(agent)
+		const files = new Set<string>()
+
+		const baseStats = await lstat(join(context.projectPath, path)).catch(() => undefined)
+		const basePaths = baseStats?.isDirectory()
+			? (await walkHost(context.projectPath, path, getIgnoredRootEntries(context))).keys()
+			: baseStats
+				? [path]
+				: []
+		for (const basePath of basePaths) {
+			if (!isWhitedOut(whiteouts, basePath)) files.add(basePath)
+		}
+
+		const deltaStats = await agent.fs.stat(`/${path}`).catch(() => undefined)
+		const deltaPaths = deltaStats?.isDirectory()
+			? (await walkDelta(agent, path)).keys()
+			: deltaStats
+				? [path]
+				: []
+		for (const deltaPath of deltaPaths) {
+			files.add(deltaPath)
+		}
+		return [...files].sort()
+	}
+	throw noSandbox(context)
+}
+
+/**
+ * Write a file into the session's sandbox, creating parent directories as needed.
+ */
+export async function writeSandboxFile(
+	context: SessionContext,
+	path: string,
+	content: Buffer,
+): Promise<void> {
+	if (context.mount.mounted) {
+		const target = join(context.mount.mountPath, path)
+		await mkdir(dirname(target), { recursive: true })
+		await writeFile(target, content)
+		return
+	}
+	if (context.agent) {
+		await context.agent.fs.writeFile(`/${path}`, content)
+		await removeWhiteout(context.agent, path)
+		return
+	}
+	throw noSandbox(context)
+}
+
+/**
+ * Delete a file from the session's sandbox. Base files are hidden with a whiteout.
+ */
+export async function deleteSandboxFile(context: SessionContext, path: string): Promise<void> {
+	if (context.mount.mounted) {
+		await rm(join(context.mount.mountPath, path), { force: true })
+		return
+	}
+	if (context.agent) {
+		await deleteDeltaFile(context.agent, path)
+		if (await exists(join(context.projectPath, path))) {
+			await addWhiteout(context.agent, path)
+		}
+		return
+	}
+	throw noSandbox(context)
+}
+
+/**
+ * Make the sandbox show the base project's version of a file again.
+ * If the file does not exist in the base project it is removed from the sandbox.
+ */
+export async function restoreBaseFile(context: SessionContext, path: string): Promise<void> {
+	const basePath = join(context.projectPath, path)
+	const inBase = await exists(basePath)
+
+	if (context.mount.mounted) {
+		const target = join(context.mount.mountPath, path)
+		if (inBase) {
+			await mkdir(dirname(target), { recursive: true })
+			await copyFile(basePath, target)
+		} else {
+			await rm(target, { force: true })
+		}
+		return
+	}
+	if (context.agent) {
+		// Dropping the delta entry and any whiteout exposes the base layer again
+		await deleteDeltaFile(context.agent, path)
+		await removeWhiteout(context.agent, path)
+		return
+	}
+	throw noSandbox(context)
+}
@@ -0,0 +1,97 @@
+import { readdir } from "node:fs/promises"
+import { join } from "node:path"
+import { Glob } from "bun"
+import { type LoggingClient, log } from "../log"
+import { deleteSandboxFile } from "./sandbox-fs"
+import type { SessionContext } from "./types"
+
+// Never scanned for secrets: repository metadata and dependencies at any depth,
+// and the session databases
+const SKIPPED_DIRS = new Set([".git", "node_modules"])
+const SKIPPED_ROOT_ENTRIES = new Set([".agentfs"])
+
+/**
+ * Whether a hide pattern names a path outside the project (~/.aws, /etc/secrets),
+ * which the overlay cannot hide and the path policy blocks instead.
+ */
+export function isHostPattern(pattern: string): boolean {
+	return pattern.startsWith("~") || pattern.startsWith("/")
+}
+
+/**
+ * List the project's files (and symlinks) as relative paths, without descending
+ * into the skipped directories.
+ */
+async function listScannedFiles(root: string, relative = ""): Promise<string[]> {
+	const files: string[] = []
+	for (const entry of await readdir(join(root, relative), { withFileTypes: true })) {
+		if (SKIPPED_DIRS.has(entry.name) || (!relative && SKIPPED_ROOT_ENTRIES.has(entry.name))) {
+			continue
+		}
+		const path = relative ? `${relative}/${entry.name}` : entry.name
+		if (entry.isDirectory()) {
+			files.push(...(await listScannedFiles(root, path)))
+		} else if (entry.isFile() || entry.isSymbolicLink()) {
+			files.push(path)
+		}
+	}
+	return files
+}
+
+function toGlob(pattern: string): Glob {
+	return new Glob(pattern.includes("/") ? pattern : `**/${pattern}`)
+}
+
+/**
+ * Find the project files matching the hide patterns. Patterns without a "/" match
+ * a name at any depth, like the other path policy globs. Files matching a negated
+ * pattern (!.env.example) stay visible.
+ */
+export async function findHiddenFiles(projectPath: string, patterns: string[]): Promise<string[]> {
+	const projectPatterns = patterns.filter((pattern) => !isHostPattern(pattern))
+	const globs = projectPatterns.filter((pattern) => !pattern.startsWith("!")).map(toGlob)
+	const exceptions = projectPatterns
+		.filter((pattern) => pattern.startsWith("!"))
+		.map((pattern) => toGlob(pattern.slice(1)))
+	if (globs.length === 0) {
+		return []
+	}
+	const files = await listScannedFiles(projectPath)
+	return files
+		.filter((path) => globs.some((glob) => glob.match(path)))
+		.filter((path) => !exceptions.some((glob) => glob.match(path)))
+		.sort()
+}
+
+/**
+ * Delete the context's hidden files from its sandbox, leaving whiteouts over the base
+ * project. Called again after anything that resets the sandbox to the project.
+ */
+export async function applyHiddenFiles(context: SessionContext): Promise<void> {
+	for (const path of context.hiddenPaths ?? []) {
+		await deleteSandboxFile(context, path)
+	}
+}
+
+/**
+ * Make project files matching the hide patterns (e.g. .env, .env.local) absent from the
+ * session's sandbox, so neither file tools nor shell commands see them. The hidden
+ * deletions are remembered on the context so they never count as sandbox changes
+ * and applying the sandbox cannot delete the real files.
+ */
+export async function hideSecretFiles(
+	context: SessionContext,
+	patterns: string[],
+	client?: LoggingClient,
+): Promise<string[]> {
+	const hidden = await findHiddenFiles(context.projectPath, patterns)
+	context.hiddenPaths = new Set(hidden)
+	await applyHiddenFiles(context)
+
+	if (hidden.length > 0) {
+		log(client, "info", `Hid ${hidden.length} secret files from session ${context.sessionId}`, {
+			hidden,
+		})
+	}
+	return hidden
+}
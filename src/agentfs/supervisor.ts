@@ -0,0 +1,133 @@
+import { type Subprocess, spawn } from "bun"
+import { runUnmount } from "./mount"
+import { isProcessAlive } from "./registry"
+
+/**
+ * Options for a mount supervisor, passed to its process as one JSON argument so no
+ * value ever goes through a shell.
+ */
+export interface SupervisorOptions {
+	/** The agentfs mount command and its arguments */
+	command: string[]
+	cwd: string
+	mountPath: string
+	/** The supervisor stops the mount when this process dies */
+	parentPid: number
+	/** Restarts after the mount exits before the supervisor gives up */
+	maxRestarts: number
+	initialBackoffMs: number
+	maxBackoffMs: number
+	/** How often the parent is checked */
+	watchIntervalMs?: number
+}
+
+// A mount that ran this long before exiting counts as healthy and resets the backoff
+const HEALTHY_RUN_MS = 60_000
+
+/**
+ * Run the mount command until the parent process dies or the supervisor is terminated,
+ * restarting it with exponential backoff when it exits on its own. The command's output
+ * goes to the supervisor's stdout and stderr, which the plugin forwards to its logger.
+ * Resolves with the exit code the supervisor should exit with.
+ */
+export async function runSupervisor(options: SupervisorOptions): Promise<number> {
+	let child: Subprocess | undefined
+	let wakeUp: (() => void) | undefined
+	let stopping = false
+	let restarts = 0
+	let exitCode = 0
+
+	const stop = () => {
+		if (stopping) return
+		stopping = true
+		child?.kill()
+		wakeUp?.()
+	}
+	process.on("SIGTERM", stop)
+	process.on("SIGINT", stop)
+	const watchdog = setInterval(() => {
+		if (!isProcessAlive(options.parentPid)) stop()
+	}, options.watchIntervalMs ?? 1000)
+
+	try {
+		while (!stopping) {
+			const startedAt = Date.now()
+			child = spawn(options.command, { cwd: options.cwd, stdout: "inherit", stderr: "inherit" })
+			exitCode = await child.exited
+			if (stopping) break
+
+			if (Date.now() - startedAt >= HEALTHY_RUN_MS) {
+				restarts = 0
+			}
+			if (restarts >= options.maxRestarts) {
+				console.error(
+					`agentfs mount exited with code ${exitCode}, giving up after ${restarts} restarts`,
+				)
+				break
+			}
+
+			const delay = Math.min(options.initialBackoffMs * 2 ** restarts, options.maxBackoffMs)
+			restarts++
+			console.error(`agentfs mount exited with code ${exitCode}, restarting in ${delay}ms`)
+			// A crashed daemon can leave a dead endpoint that blocks the next mount
+			await runUnmount(options.mountPath, false)
+			await new Promise<void>((resolve) => {
+				wakeUp = resolve
+				setTimeout(resolve, delay)
+			})
+		}
+	} finally {
+		clearInterval(watchdog)
+		process.off("SIGTERM", stop)
+		process.off("SIGINT", stop)
+	}
+
+	await runUnmount(options.mountPath, false)
+	return stopping ? 0 : exitCode || 1
+}
+
+/**
+ * Read the supervisor options from its JSON argument, throwing a message that says what
+ * is wrong instead of failing somewhere inside spawn. Exported for testing.
+ */
+export function parseSupervisorOptions(argument: string | undefined): SupervisorOptions {
+	if (!argument) {
+		throw new Error("Usage: supervisor.ts '<options JSON>' (the options argument is missing)")
+	}
+	let options: Partial<SupervisorOptions>
+	try {
+		options = JSON.parse(argument)
+	} catch (err) {
+		throw new Error(`Supervisor options are not valid JSON: ${err}`)
+	}
+
+	if (
+		!Array.isArray(options.command) ||
+		options.command.length === 0 ||
+		!options.command.every((part) => typeof part === "string")
+	) {
+		throw new Error("Supervisor options need a non-empty command array of strings")
+	}
+	for (const field of ["cwd", "mountPath"] as const) {
+		if (typeof options[field] !== "string") {
+			throw new Error(`Supervisor options need ${field} as a string`)
+		}
+	}
+	for (const field of ["parentPid", "maxRestarts", "initialBackoffMs", "maxBackoffMs"] as const) {
+		if (typeof options[field] !== "number") {
+			throw new Error(`Supervisor options need ${field} as a number`)
+		}
+	}
+	return options as SupervisorOptions
+}
+
+if (import.meta.main) {
+	let options: SupervisorOptions
+	try {
+		options = parseSupervisorOptions(process.argv[2])
+	} catch (err) {
+		console.error(err instanceof Error ? err.message : String(err))
+		process.exit(2)
+	}
+	process.exit(await runSupervisor(options))
+}
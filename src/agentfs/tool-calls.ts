@@ -0,0 +1,123 @@
+import { existsSync } from "node:fs"
+import { appendFile, readFile, rm } from "node:fs/promises"
+import type { AgentFS } from "agentfs-sdk"
+import { getSession } from "./client"
+import type { ToolCallRecord } from "./types"
+
+// Records of sessions that have no context yet, kept in memory up to a limit.
+// Records of sessions whose database is locked by the FUSE daemon are appended to a
+// file next to the database instead, so they survive a crash and are written by the
+// next process that opens the session.
+const pendingRecords = new Map<string, ToolCallRecord[]>()
+
+const MAX_PENDING_RECORDS = 1000
+
+/**
+ * The file buffering a session's tool calls while its database is locked.
+ */
+export function getPendingToolCallsPath(dbPath: string): string {
+	return `${dbPath}.pending.jsonl`
+}
+
+function toSeconds(ms: number): number {
+	return Math.floor(ms / 1000)
+}
+
+async function writeRecord(agent: AgentFS, record: ToolCallRecord): Promise<void> {
+	// The SDK stores timestamps in seconds; the exact duration goes with the parameters
+	await agent.tools.record(
+		record.tool,
+		toSeconds(record.startedAt),
+		toSeconds(record.completedAt),
+		{
+			callID: record.callID,
+			sessionID: record.sessionID,
+			args: record.args,
+			durationMs: record.completedAt - record.startedAt,
+		},
+		record.error
+			? undefined
+			: {
+					title: record.title,
+					metadata: record.metadata,
+				},
+		record.error,
+	)
+}
+
+/**
+ * Read the records spooled to disk. A line cut short by a crash is skipped.
+ */
+async function readSpooledRecords(path: string): Promise<ToolCallRecord[]> {
+	let text: string
+	try {
+		text = await readFile(path, "utf8")
+	} catch {
+		return []
+	}
+
+	const records: ToolCallRecord[] = []
+	for (const line of text.split("\n")) {
+		if (!line.trim()) continue
+		try {
+			records.push(JSON.parse(line) as ToolCallRecord)
+		} catch {
+			// Partial write
+		}
+	}
+	return records
+}
+
+/**
+ * Save a tool call to the session's AgentFS database.
+ * If the database is not open (e.g. the overlay is mounted), the record is buffered
+ * until flushToolCalls() is called for the session.
+ */
+export async function recordToolCall(record: ToolCallRecord): Promise<void> {
+	const context = getSession(record.sessionID)
+	if (context?.agent) {
+		await writeRecord(context.agent, record)
+		return
+	}
+	if (context) {
+		await appendFile(getPendingToolCallsPath(context.mount.dbPath), `${JSON.stringify(record)}\n`)
+		return
+	}
+
+	const pending = pendingRecords.get(record.sessionID) ?? []
+	pending.push(record)
+	// Drop the oldest records rather than growing without bound
+	pendingRecords.set(record.sessionID, pending.slice(-MAX_PENDING_RECORDS))
+}
+
+/**
+ * Write all buffered tool calls for a session to its database, including those spooled
+ * by a process that exited before it could write them.
+ * Returns the number of records written. Does nothing if the database is not open.
+ */
+export async function flushToolCalls(sessionId: string): Promise<number> {
+	const context = getSession(sessionId)
+	if (!context?.agent) {
+		return 0
+	}
+
+	const spoolPath = getPendingToolCallsPath(context.mount.dbPath)
+	const pending = [
+		...(pendingRecords.get(sessionId) ?? []),
+		...(await readSpooledRecords(spoolPath)),
+	]
+	pendingRecords.delete(sessionId)
+	for (const record of pending) {
+		await writeRecord(context.agent, record)
+	}
+	await rm(spoolPath, { force: true })
+	return pending.length
+}
+
+export function hasPendingToolCalls(sessionId: string): boolean {
+	if ((pendingRecords.get(sessionId)?.length ?? 0) > 0) {
+		return true
+	}
+	const context = getSession(sessionId)
+	return !!context && existsSync(getPendingToolCallsPath(context.mount.dbPath))
+}
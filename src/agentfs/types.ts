@@ -1,4 +1,40 @@
 import type { AgentFS } from "agentfs-sdk"
+import type { LoggingClient } from "../log"
+
+export type MountBackendName = "fuse" | "git-worktree"
+
+/**
+ * How the agentfs CLI is run (config.cli).
+ */
+export interface AgentFSCliOptions {
+	/** Binary name looked up on PATH, or a path to the executable */
+	path: string
+	/** Extra arguments for `agentfs init` */
+	initArgs: string[]
+	/** Extra arguments for `agentfs mount` */
+	mountArgs: string[]
+	/** Environment variables added for every agentfs command */
+	env: Record<string, string>
+}
+
+/**
+ * How the FUSE mount supervisor restarts a mount that exits (config.mountRestart).
+ */
+export interface MountRestartOptions {
+	maxRestarts: number
+	initialBackoffMs: number
+	maxBackoffMs: number
+}
+
+export interface UnmountOptions {
+	/** Retries, with exponential backoff, while the mount point is busy */
+	retries: number
+	initialBackoffMs: number
+	/** Detach the mount lazily (fusermount -uz) when it stays busy */
+	lazyFallback: boolean
+	/** Log the processes keeping a busy mount point in use */
+	listHolders: boolean
+}
 
 export interface MountInfo {
 	sessionId: string
@@ -6,8 +42,52 @@ export interface MountInfo {
 	mountPath: string
 	dbPath: string
 	mounted: boolean
+	/** Backend that provides the sandbox at mountPath (defaults to "fuse") */
+	backend?: MountBackendName
+	/** How long to wait for a started mount to appear in the mount table */
+	readyTimeoutMs?: number
+	/** How to run the agentfs CLI (defaults to `agentfs` on PATH) */
+	cli?: AgentFSCliOptions
+	/** How the mount is restarted when it exits on its own */
+	restart?: MountRestartOptions
+	/** How a busy mount is unmounted */
+	unmount?: UnmountOptions
 	pid?: number
 	error?: string
+	/** Set when the mounted sandbox died and could not be remounted */
+	lost?: boolean
+}
+
+export interface MountStatus {
+	backend: MountBackendName
+	mounted: boolean
+	mountPath: string
+	projectPath: string
+	pid?: number
+}
+
+/**
+ * A way of giving a session a writable copy of the project at mount.mountPath.
+ * mountSandbox() runs prepare, mount and verify in order; path rewriting and the
+ * sandbox helpers only rely on mountPath mirroring the project while mounted.
+ */
+export interface MountBackend {
+	name: MountBackendName
+	/** Whether the mounted sandbox keeps the SDK from opening the session database */
+	holdsDatabaseLock: boolean
+	/** Whether this host can run the backend at all */
+	isSupported(): boolean
+	/** Check prerequisites and set up state the mount needs (e.g. agentfs init) */
+	prepare(mount: MountInfo, projectPath: string, client?: LoggingClient): Promise<void>
+	/** Make the sandbox available at mount.mountPath */
+	mount(mount: MountInfo, projectPath: string, client?: LoggingClient): Promise<void>
+	/** Return an error message if the sandbox is not usable, undefined otherwise */
+	verify(mount: MountInfo, client?: LoggingClient): Promise<string | undefined>
+	/** Stop serving the sandbox; its contents persist for the next mount */
+	unmount(mount: MountInfo, client?: LoggingClient): Promise<void>
+	/** Throw away contents kept outside the session database so the next mount starts fresh */
+	discard(mount: MountInfo, client?: LoggingClient): Promise<void>
+	status(mount: MountInfo): Promise<MountStatus>
 }
 
 export interface SessionContext {
@@ -15,6 +95,8 @@ export interface SessionContext {
 	projectPath: string
 	agent?: AgentFS
 	mount: MountInfo
+	/** Project files hidden from the sandbox by the path policy; never reported as deleted */
+	hiddenPaths?: Set<string>
 }
 
 export interface SandboxChange {
@@ -23,3 +105,60 @@ export interface SandboxChange {
 	size?: number
 	mtime?: number
 }
+
+export interface ToolCallRecord {
+	tool: string
+	callID: string
+	sessionID: string
+	args: Record<string, unknown>
+	title?: string
+	metadata?: unknown
+	startedAt: number
+	completedAt: number
+	error?: string
+}
+
+export interface ApplyResult {
+	dryRun: boolean
+	applied: SandboxChange[]
+	failed: { change: SandboxChange; error: string }[]
+}
+
+export interface Checkpoint {
+	/** callID of the tool call this checkpoint was taken before */
+	callID: string
+	tool: string
+	createdAt: number
+	/** Project-relative files and directories the tool call was about to change */
+	paths: string[]
+	/** Every file at or below paths before the call: content hash, or null if it did not exist */
+	files: Record<string, string | null>
+	/** Files the call changed, with their hash after it (null if removed); set once it finished */
+	changed?: Record<string, string | null>
+}
+
+export interface RollbackResult {
+	checkpoint: Checkpoint
+	restored: string[]
+	/**
+	 * Rolled back calls whose changes may not all be undone: bash calls only saved the write
+	 * targets found in the command, and calls that named no files saved nothing
+	 */
+	uncovered: Checkpoint[]
+}
+
+export interface FileConflict {
+	path: string
+	reason: string
+}
+
+export interface UndoResult {
+	callID: string
+	reverted: string[]
+	conflicts: FileConflict[]
+}
+
+export interface MergeResult {
+	merged: string[]
+	conflicts: FileConflict[]
+}
@@ -0,0 +1,161 @@
+import { existsSync } from "node:fs"
+import { access, constants, copyFile, mkdir, realpath, rm } from "node:fs/promises"
+import { dirname, join } from "node:path"
+import { spawn } from "bun"
+import { type LoggingClient, log } from "../log"
+import type { MountBackend, MountInfo } from "./types"
+
+/**
+ * Run git and return its stdout, throwing with stderr on a non-zero exit.
+ */
+async function git(args: string[], cwd: string): Promise<string> {
+	const proc = spawn(["git", ...args], { cwd, stdout: "pipe", stderr: "pipe" })
+	const [stdout, stderr, exitCode] = await Promise.all([
+		new Response(proc.stdout).text(),
+		new Response(proc.stderr).text(),
+		proc.exited,
+	])
+	if (exitCode !== 0) {
+		throw new Error(`git ${args[0]} failed: ${stderr.trim() || `exit code ${exitCode}`}`)
+	}
+	return stdout
+}
+
+function splitNul(output: string): string[] {
+	return output.split("\0").filter(Boolean)
+}
+
+/**
+ * List the untracked files a checkout ignores (.env, build output), relative to root.
+ * Directories that are ignored as a whole are listed once, with a trailing "/".
+ */
+export async function listIgnoredPaths(root: string): Promise<string[]> {
+	return splitNul(
+		await git(
+			["ls-files", "--others", "--ignored", "--exclude-standard", "--directory", "-z"],
+			root,
+		),
+	)
+}
+
+/**
+ * Whether a relative path is one of the ignored paths or lies in an ignored directory.
+ */
+export function isIgnoredPath(path: string, ignored: string[]): boolean {
+	return ignored.some((entry) => (entry.endsWith("/") ? path.startsWith(entry) : path === entry))
+}
+
+/**
+ * Whether mountPath already holds a worktree (a resumed session).
+ */
+function hasWorktree(mount: MountInfo): boolean {
+	return existsSync(join(mount.mountPath, ".git"))
+}
+
+/**
+ * The worktree is checked out at HEAD, so carry over the project's uncommitted
+ * changes and untracked files to start the session from what is on disk.
+ */
+async function copyWorkingChanges(
+	mount: MountInfo,
+	projectPath: string,
+	client?: LoggingClient,
+): Promise<void> {
+	const [changed, untracked] = await Promise.all([
+		git(["diff", "--name-only", "--no-renames", "-z", "HEAD"], projectPath),
+		git(["ls-files", "--others", "--exclude-standard", "-z"], projectPath),
+	])
+	const paths = [...splitNul(changed), ...splitNul(untracked)].filter(
+		(path) => !path.startsWith(".agentfs/"),
+	)
+
+	for (const path of paths) {
+		const target = join(mount.mountPath, path)
+		if (existsSync(join(projectPath, path))) {
+			await mkdir(dirname(target), { recursive: true })
+			await copyFile(join(projectPath, path), target)
+		} else {
+			await rm(target, { force: true })
+		}
+	}
+	log(client, "debug", `Copied ${paths.length} uncommitted files into the worktree`)
+}
+
+/**
+ * A `git worktree` of the project per session. Needs no FUSE or agentfs CLI, so it
+ * isolates sessions on any host with git. The worktree persists across unmounts
+ * like the overlay does, and leaves the session database free for the SDK.
+ */
+export const worktreeBackend: MountBackend = {
+	name: "git-worktree",
+	holdsDatabaseLock: false,
+
+	isSupported: () => Bun.which("git") !== null,
+
+	async prepare(_mount, projectPath, client) {
+		let toplevel: string
+		try {
+			toplevel = (await git(["rev-parse", "--show-toplevel"], projectPath)).trim()
+		} catch (err) {
+			throw new Error(`The git-worktree backend needs a git repository: ${err}`)
+		}
+		// Worktrees mirror the whole repository, so mountPath only maps onto its root
+		if ((await realpath(toplevel)) !== (await realpath(projectPath))) {
+			throw new Error(
+				`The git-worktree backend needs the project at the repository root (${toplevel})`,
+			)
+		}
+		log(client, "debug", `Project is a git repository root`, { projectPath })
+	},
+
+	async mount(mount, projectPath, client) {
+		if (hasWorktree(mount)) {
+			log(client, "debug", `Reusing worktree at ${mount.mountPath}`)
+			return
+		}
+
+		log(client, "debug", `Adding worktree at ${mount.mountPath}`)
+		await mkdir(mount.mountPath, { recursive: true })
+		// Forget a worktree whose directory was deleted, so it can be added again
+		await git(["worktree", "prune"], projectPath)
+		await git(["worktree", "add", "--detach", mount.mountPath, "HEAD"], projectPath)
+		await copyWorkingChanges(mount, projectPath, client)
+	},
+
+	async verify(mount, client) {
+		try {
+			await access(mount.mountPath, constants.R_OK | constants.W_OK)
+		} catch {
+			return `Worktree not accessible: ${mount.mountPath}`
+		}
+		try {
+			const inside = await git(["rev-parse", "--is-inside-work-tree"], mount.mountPath)
+			if (inside.trim() !== "true") {
+				return `Not a git worktree: ${mount.mountPath}`
+			}
+		} catch (err) {
+			log(client, "debug", `Worktree check failed: ${err}`)
+			return `Not a git worktree: ${mount.mountPath}`
+		}
+		return undefined
+	},
+
+	// Nothing runs while mounted; the worktree stays on disk for the next mount
+	unmount: async () => {},
+
+	async discard(mount, client) {
+		if (!hasWorktree(mount)) {
+			return
+		}
+		log(client, "debug", `Removing worktree at ${mount.mountPath}`)
+		await git(["worktree", "remove", "--force", mount.mountPath], mount.projectPath)
+		await mkdir(mount.mountPath, { recursive: true })
+	},
+
+	status: async (mount) => ({
+		backend: "git-worktree",
+		mounted: mount.mounted,
+		mountPath: mount.mountPath,
+		projectPath: mount.projectPath,
+	}),
+}
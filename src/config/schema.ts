@@ -7,6 +7,186 @@ export const AgentFSConfigSchema = z.object({
 
 	autoMount: z.boolean().default(true).describe("Automatically mount overlay on session create"),
 
+	mountBackend: z
+		.enum(["fuse", "git-worktree"])
+		.default("fuse")
+		.describe(
+			"How sessions get their sandbox: fuse mounts an AgentFS overlay, " +
+				"git-worktree checks out a git worktree of the project (no FUSE needed)",
+		),
+
+	mountTimeoutMs: z
+		.number()
+		.int()
+		.positive()
+		.default(10000)
+		.describe("How long to wait for a FUSE mount to become ready before failing"),
+
+	cli: z
+		.object({
+			path: z
+				.string()
+				.default("agentfs")
+				.describe("agentfs binary: a name looked up on PATH or a path to the executable"),
+			initArgs: z.array(z.string()).default([]).describe("Extra arguments for agentfs init"),
+			mountArgs: z.array(z.string()).default([]).describe("Extra arguments for agentfs mount"),
+			env: z
+				.record(z.string(), z.string())
+				.default({})
+				.describe("Environment variables added for every agentfs command"),
+		})
+		.default(() => ({ path: "agentfs", initArgs: [], mountArgs: [], env: {} }))
+		.describe("How the agentfs CLI used for FUSE mounts is run"),
+
+	mountRestart: z
+		.object({
+			maxRestarts: z
+				.number()
+				.int()
+				.nonnegative()
+				.default(5)
+				.describe("Restarts of an exited FUSE daemon before its supervisor gives up"),
+			initialBackoffMs: z.number().int().positive().default(500),
+			maxBackoffMs: z.number().int().positive().default(30000),
+		})
+		.default(() => ({ maxRestarts: 5, initialBackoffMs: 500, maxBackoffMs: 30000 }))
+		.describe(
+			"How the FUSE daemon is restarted, with exponential backoff, when it exits. " +
+				"Only used with mountHealth disabled; otherwise the health monitor remounts",
+		),
+
+	unmount: z
+		.object({
+			retries: z
+				.number()
+				.int()
+				.nonnegative()
+				.default(3)
+				.describe("Unmount retries while processes still use the mount point"),
+			initialBackoffMs: z.number().int().positive().default(200),
+			lazyFallback: z
+				.boolean()
+				.default(true)
+				.describe("Detach a mount that stays busy lazily instead of leaving it mounted"),
+			listHolders: z
+				.boolean()
+				.default(true)
+				.describe("Log the processes keeping a busy mount point in use (Linux only)"),
+		})
+		.default(() => ({ retries: 3, initialBackoffMs: 200, lazyFallback: true, listHolders: true }))
+		.describe("How FUSE mounts that are busy are unmounted"),
+
+	mountHealth: z
+		.object({
+			enabled: z.boolean().default(true),
+			intervalMs: z
+				.number()
+				.int()
+				.positive()
+				.default(10000)
+				.describe("How often mounted sandboxes are probed"),
+			maxRemounts: z
+				.number()
+				.int()
+				.nonnegative()
+				.default(3)
+				.describe("Remount attempts before a broken sandbox is left unmounted"),
+		})
+		.default(() => ({ enabled: true, intervalMs: 10000, maxRemounts: 3 }))
+		.describe("Watch mounted sandboxes and remount them when the mount stops working"),
+
+	pathArgs: z
+		.record(z.string(), z.array(z.string()))
+		.default({})
+		.describe(
+			"Extra tool arguments holding paths to rewrite into the mount, by tool name. " +
+				"Fields are dot paths into the args and a key ending in [] steps into each array element, " +
+				'e.g. { "my_tool": ["options.path", "edits[].filePath"] }. Merged with the built-in tools',
+		),
+
+	bashRewrite: z
+		.enum(["shell", "regex"])
+		.default("shell")
+		.describe(
+			"How bash commands are redirected into the mount: shell tokenizes the command, rewrites " +
+				"path arguments and runs it from the mounted working directory; regex replaces every " +
+				"occurrence of the project path in the command text",
+		),
+
+	pathPolicy: z
+		.object({
+			deny: z
+				.array(z.string())
+				.default([])
+				.describe("Globs of project paths no tool may read or write, e.g. .env or secrets/**"),
+			readOnly: z
+				.array(z.string())
+				.default([])
+				.describe("Globs of project paths tools may read but not modify, e.g. .git/**"),
+			hide: z
+				.array(z.string())
+				.default([".env*", "!.env.example", "*.pem", "~/.aws"])
+				.describe(
+					"Globs of project files that are absent from the sandbox (whited out when a session " +
+						"starts), plus ~/ or absolute host paths that tool calls may not name. " +
+						"A glob starting with ! keeps matching files visible, e.g. !.env.example",
+				),
+			outside: z
+				.enum(["allow", "warn", "block"])
+				.default("warn")
+				.describe(
+					"What to do with tool calls that name paths outside the project and the sandbox: " +
+						"allow them, warn with a toast when the call writes there, or block the call",
+				),
+			allowOutside: z
+				.array(z.string())
+				.default(["/tmp", "/dev"])
+				.describe("Directories outside the project that tools may use freely"),
+		})
+		.default(() => ({
+			deny: [],
+			readOnly: [],
+			hide: [".env*", "!.env.example", "*.pem", "~/.aws"],
+			outside: "warn" as const,
+			allowOutside: ["/tmp", "/dev"],
+		}))
+		.describe(
+			"Globs are relative to the project root; patterns without a / match a name at any depth",
+		),
+
+	retention: z
+		.object({
+			enabled: z.boolean().default(true).describe("Collect garbage when the plugin starts"),
+			maxAgeDays: z
+				.number()
+				.positive()
+				.default(30)
+				.describe("Session databases not used for this many days are deleted"),
+			maxSessions: z
+				.number()
+				.int()
+				.positive()
+				.default(100)
+				.describe("Only this many of the most recently used session databases are kept"),
+			maxTotalBytes: z
+				.number()
+				.int()
+				.positive()
+				.default(1024 * 1024 * 1024)
+				.describe("Older session databases are deleted once the newer ones use this much"),
+			keepUnapplied: z
+				.boolean()
+				.default(true)
+				.describe("Never delete sessions with changes that were not applied to the project"),
+		})
+		.default(() => ({
+			enabled: true,
+			maxAgeDays: 30,
+			maxSessions: 100,
+			maxTotalBytes: 1024 * 1024 * 1024,
+			keepUnapplied: true,
+		})),
+
 	toolTracking: z
 		.object({
 			enabled: z.boolean().default(true),
@@ -14,6 +194,43 @@ export const AgentFSConfigSchema = z.object({
 			excludeTools: z.array(z.string()).optional(),
 		})
 		.default(() => ({ enabled: true, trackAll: true })),
+
+	sdkFallback: z
+		.enum(["off", "auto", "always"])
+		.default("auto")
+		.describe(
+			"Serve read/write/edit/glob/grep from the session's sandbox instead of OpenCode's own tools: " +
+				"auto when mounting is unavailable (autoMount off, unsupported backend or missing CLI), " +
+				"always to also cover sessions whose mount fails or is lost at runtime, off never",
+		),
+
+	childSessions: z
+		.enum(["fork", "isolated", "share", "stack"])
+		.default("fork")
+		.describe(
+			"How sessions with a parent (e.g. subagent tasks) get their sandbox: " +
+				"fork copies the parent's sandbox, isolated starts from the project, " +
+				"share reuses the parent's sandbox, stack forks and merges back when the child goes idle",
+		),
+
+	checkpoints: z
+		.object({
+			enabled: z.boolean().default(true),
+			tools: z
+				.array(z.string())
+				.default(["write", "edit", "bash"])
+				.describe(
+					"Tools whose files are checkpointed before they run: every path argument, " +
+						"and for bash the paths the command writes",
+				),
+			maxCheckpoints: z
+				.number()
+				.int()
+				.positive()
+				.default(50)
+				.describe("Oldest checkpoints are dropped beyond this count"),
+		})
+		.default(() => ({ enabled: true, tools: ["write", "edit", "bash"], maxCheckpoints: 50 })),
 })
 
 export type AgentFSConfig = z.infer<typeof AgentFSConfigSchema>
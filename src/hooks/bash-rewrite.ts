@@ -0,0 +1,376 @@
+import { homedir } from "node:os"
+import { isAbsolute, join, resolve } from "node:path"
+import { type LoggingClient, log } from "../log"
+import { resolveToolPath } from "./resolve-path"
+
+/**
+ * A word of a shell command as it appears in the source: quotes and escapes included.
+ */
+export interface ShellWord {
+	start: number
+	end: number
+	text: string
+}
+
+// Characters that end an unquoted word
+const SEPARATORS = new Set([" ", "\t", "\n", ";", "&", "|", "(", ")", "<", ">", "`"])
+
+// Leading `NAME=` of an assignment or `--option=` of a long flag
+const ASSIGNMENT_PREFIX = /^(?:[A-Za-z_][A-Za-z0-9_]*=|--?[A-Za-z0-9][\w-]*=)/
+
+// Unquoted words made of these characters need no quoting
+const SAFE_WORD = /^[\w@%+=:,./-]+$/
+
+/**
+ * Find the index just past the closing double quote of a string starting at start.
+ */
+function skipDoubleQuoted(command: string, start: number): number {
+	let i = start + 1
+	while (i < command.length && command[i] !== '"') {
+		i += command[i] === "\\" ? 2 : 1
+	}
+	return i + 1
+}
+
+/**
+ * Skip heredoc bodies that start at start, returning the index after their delimiter lines.
+ */
+function skipHeredocBodies(
+	command: string,
+	start: number,
+	heredocs: { delimiter: string; stripTabs: boolean }[],
+): number {
+	let i = start
+	for (const { delimiter, stripTabs } of heredocs) {
+		while (i < command.length) {
+			const newline = command.indexOf("\n", i)
+			const lineEnd = newline === -1 ? command.length : newline
+			const line = command.slice(i, lineEnd)
+			i = lineEnd + 1
+			if ((stripTabs ? line.replace(/^\t+/, "") : line) === delimiter) break
+		}
+	}
+	return Math.min(i, command.length)
+}
+
+/**
+ * Read the delimiter word of a heredoc operator, returning its unquoted value and end index.
+ */
+function readHeredocDelimiter(command: string, start: number): { delimiter: string; end: number } {
+	let i = start
+	while (command[i] === " " || command[i] === "\t") i++
+
+	let delimiter = ""
+	while (i < command.length && !SEPARATORS.has(command[i] as string)) {
+		const c = command[i] as string
+		if (c === "'" || c === '"') {
+			const close = command.indexOf(c, i + 1)
+			const end = close === -1 ? command.length : close
+			delimiter += command.slice(i + 1, end)
+			i = end + 1
+		} else if (c === "\\") {
+			delimiter += command[i + 1] ?? ""
+			i += 2
+		} else {
+			delimiter += c
+			i++
+		}
+	}
+	return { delimiter, end: i }
+}
+
+/**
+ * Split a shell command into words, following quotes, escapes, comments, subshells
+ * and command substitutions. Operators and redirections separate words, and heredoc
+ * bodies and comments are skipped since they are data rather than arguments.
+ */
+export function tokenizeShell(command: string): ShellWord[] {
+	const words: ShellWord[] = []
+	let heredocs: { delimiter: string; stripTabs: boolean }[] = []
+	let wordStart = -1
+	let i = 0
+
+	const endWord = (end: number) => {
+		if (wordStart !== -1) {
+			words.push({ start: wordStart, end, text: command.slice(wordStart, end) })
+			wordStart = -1
+		}
+	}
+
+	while (i < command.length) {
+		const c = command[i] as string
+
+		if (c === "\\") {
+			if (wordStart === -1) wordStart = i
+			i += 2
+		} else if (c === "'") {
+			if (wordStart === -1) wordStart = i
+			const close = command.indexOf("'", i + 1)
+			i = close === -1 ? command.length : close + 1
+		} else if (c === '"') {
+			if (wordStart === -1) wordStart = i
+			i = skipDoubleQuoted(command, i)
+		} else if (c === "#" && wordStart === -1) {
+			const newline = command.indexOf("\n", i)
+			i = newline === -1 ? command.length : newline
+		} else if (c === "$" && command[i + 1] === "(") {
+			endWord(i)
+			i += 2
+		} else if (c === "<" && command[i + 1] === "<" && command[i + 2] !== "<") {
+			endWord(i)
+			const stripTabs = command[i + 2] === "-"
+			const { delimiter, end } = readHeredocDelimiter(command, i + (stripTabs ? 3 : 2))
+			heredocs.push({ delimiter, stripTabs })
+			i = end
+		} else if (c === "\n") {
+			endWord(i)
+			i = skipHeredocBodies(command, i + 1, heredocs)
+			heredocs = []
+		} else if (SEPARATORS.has(c)) {
+			endWord(i)
+			i++
+		} else {
+			if (wordStart === -1) wordStart = i
+			i++
+		}
+	}
+	endWord(command.length)
+
+	return words
+}
+
+/**
+ * Render a path for the quoting context it is inserted into,
+ * or undefined if it cannot be written there literally.
+ */
+function quotePath(path: string, quote: string | undefined): string | undefined {
+	if (quote === "'") return path.includes("'") ? undefined : path
+	if (quote === '"') return /["$`\\]/.test(path) ? undefined : path
+	if (SAFE_WORD.test(path)) return path
+	return path.includes("'") ? undefined : `'${path}'`
+}
+
+/**
+ * Rewrite a word whose value is a path in the project (optionally after `NAME=` or
+ * `--option=`) to the same path in the mount. Handles quoting and paths written with
+ * `~` or `$HOME`. Paths inside larger strings are left alone since they are not arguments.
+ */
+export function rewriteShellWord(
+	word: string,
+	projectPath: string,
+	mountPath: string,
+	home = homedir(),
+): string {
+	const assignment = word.match(ASSIGNMENT_PREFIX)?.[0] ?? ""
+	let pathStart = assignment.length
+	const quote = word[pathStart] === "'" || word[pathStart] === '"' ? word[pathStart] : undefined
+	if (quote) pathStart++
+
+	// Resolve a leading ~ or $HOME; neither expands inside single quotes
+	let homeRaw = ""
+	const rest = word.slice(pathStart)
+	if (!quote && (rest === "~" || rest.startsWith("~/"))) {
+		homeRaw = "~"
+	} else if (quote !== "'") {
+		homeRaw = rest.match(/^(?:\$HOME|\$\{HOME\})(?![\w])/)?.[0] ?? ""
+	}
+
+	// The literal part of the path, up to the next quote or expansion
+	const literal = rest.slice(homeRaw.length).match(/^[^'"$\\]*/)?.[0] ?? ""
+	const path = homeRaw ? `${home}${literal}` : literal
+	if (!path.startsWith("/") || !(path === projectPath || path.startsWith(`${projectPath}/`))) {
+		return word
+	}
+
+	// The source text spelling out projectPath: the home prefix plus the rest of the project
+	if (homeRaw && projectPath.length < home.length) {
+		return word
+	}
+	const projectRawLength = homeRaw
+		? homeRaw.length + projectPath.length - home.length
+		: projectPath.length
+
+	const replacement = quotePath(mountPath, quote)
+	if (replacement === undefined) {
+		return word
+	}
+	return `${word.slice(0, pathStart)}${replacement}${word.slice(pathStart + projectRawLength)}`
+}
+
+/**
+ * Rewrite every word of a shell command that is a path in the project to the mount.
+ */
+export function rewriteShellCommand(
+	command: string,
+	projectPath: string,
+	mountPath: string,
+	home = homedir(),
+): string {
+	let result = command
+	// Replace from the end so earlier word offsets stay valid
+	for (const word of tokenizeShell(command).reverse()) {
+		const rewritten = rewriteShellWord(word.text, projectPath, mountPath, home)
+		if (rewritten !== word.text) {
+			result = result.slice(0, word.start) + rewritten + result.slice(word.end)
+		}
+	}
+	return result
+}
+
+/**
+ * Map a path in the project to the mount, or return undefined if it is outside the project.
+ */
+function projectToMount(path: string, projectPath: string, mountPath: string): string | undefined {
+	if (path === projectPath) return mountPath
+	if (path.startsWith(`${projectPath}/`)) return `${mountPath}${path.slice(projectPath.length)}`
+	return undefined
+}
+
+/**
+ * Rewrite the args of a bash call so everything it runs hits the mount:
+ * - path words in the command are rewritten from the project to the mount
+ * - a workdir/cwd argument in the project is moved into the mount
+ * - the command is prefixed with a cd into the mounted working directory, so relative
+ *   paths resolve inside the mount even when the tool ignores workdir
+ * Working directories outside the project are left alone.
+ */
+export function rewriteBashArgs(
+	args: Record<string, unknown>,
+	projectPath: string,
+	mountPath: string,
+	client?: LoggingClient,
+): void {
+	projectPath = resolve(projectPath)
+	mountPath = resolve(mountPath)
+	const cwdField = ["workdir", "cwd"].find((field) => typeof args[field] === "string")
+	const cwd = cwdField ? resolveToolPath(args[cwdField] as string, projectPath) : projectPath
+	const mountedCwd = projectToMount(cwd, projectPath, mountPath)
+
+	if (cwdField && mountedCwd) {
+		log(client, "info", `Rewriting bash ${cwdField}`, { from: args[cwdField], to: mountedCwd })
+		args[cwdField] = mountedCwd
+	}
+
+	if (typeof args.command !== "string") {
+		return
+	}
+
+	let command = rewriteShellCommand(args.command, projectPath, mountPath)
+	const cdTarget = mountedCwd && quotePath(mountedCwd, undefined)
+	if (cdTarget) {
+		command = `cd ${cdTarget} || exit 1\n${command}`
+	}
+
+	if (command !== args.command) {
+		log(client, "info", `Rewriting Bash command paths`, { from: projectPath, to: mountPath })
+		args.command = command
+	}
+}
+
+// Commands that modify the files they are given
+const MUTATING_COMMANDS = new Set([
+	"chmod",
+	"chown",
+	"cp",
+	"install",
+	"ln",
+	"mkdir",
+	"mv",
+	"rm",
+	"rmdir",
+	"rsync",
+	"tee",
+	"touch",
+	"truncate",
+	"unlink",
+])
+
+/**
+ * The shell value of a word for path checks: quotes and escapes removed, a leading
+ * `NAME=` or `--option=` dropped and ~ or $HOME expanded.
+ */
+function wordValue(word: string, home: string): string {
+	const value = word
+		.slice(word.match(ASSIGNMENT_PREFIX)?.[0].length ?? 0)
+		.replace(/\\(.)/g, "$1")
+		.replace(/['"]/g, "")
+	if (value === "~" || value.startsWith("~/")) return `${home}${value.slice(1)}`
+	return value.replace(/^(?:\$HOME|\$\{HOME\})(?![\w])/, home)
+}
+
+// Commands that change the working directory for the rest of the command
+const CD_COMMANDS = new Set(["cd", "pushd"])
+
+/**
+ * A path named by a shell command. After a cd, a relative path is listed both as written
+ * and joined to the cd target, since the cd may have run in a subshell. unresolved marks
+ * a relative path after a cd whose target is only known when the command runs.
+ */
+export interface ShellPath {
+	path: string
+	write: boolean
+	unresolved?: boolean
+}
+
+/**
+ * List the words of a shell command that may name files, and whether the command writes
+ * them: redirection targets, and arguments of commands like rm, mv or `sed -i`.
+ * Flags, command names and words with unexpanded variables are skipped.
+ */
+export function extractShellPaths(command: string, home = homedir()): ShellPath[] {
+	const paths: ShellPath[] = []
+	let commandName: string | undefined
+	let inPlace = false
+	let previousEnd = 0
+	// The directory relative paths resolve against, relative to where the command started;
+	// undefined once a cd went somewhere that cannot be known statically
+	let cwd: string | undefined = ""
+	let cdBase: string | undefined
+	let changingDirectory = false
+
+	for (const word of tokenizeShell(command)) {
+		const gap = command.slice(previousEnd, word.start)
+		previousEnd = word.end
+		if (commandName === undefined || /[;&|(\n`]|\$\(/.test(gap)) {
+			commandName = wordValue(word.text, home)
+			inPlace = false
+			changingDirectory = CD_COMMANDS.has(commandName)
+			if (changingDirectory) {
+				// A bare cd goes home; a target replaces this below
+				cdBase = cwd
+				cwd = home
+			}
+			continue
+		}
+
+		const value = wordValue(word.text, home)
+		if ((commandName === "sed" || commandName === "perl") && /^-\w*i/.test(value)) {
+			inPlace = true
+		}
+		const cdTarget = changingDirectory && (value === "-" || !value.startsWith("-"))
+
+		if (value && !value.startsWith("-") && !value.includes("$")) {
+			const redirect = gap.trimEnd().endsWith(">")
+			const write = redirect || inPlace || MUTATING_COMMANDS.has(commandName)
+			const base = cdTarget ? cdBase : cwd
+			paths.push({ path: value, write })
+			if (base === undefined && !isAbsolute(value)) {
+				paths.push({ path: value, write, unresolved: true })
+			} else if (base && !isAbsolute(value)) {
+				paths.push({ path: join(base, value), write })
+			}
+		}
+
+		if (cdTarget) {
+			changingDirectory = false
+			if (value === "-" || value.includes("$")) {
+				cwd = undefined
+			} else if (isAbsolute(value)) {
+				cwd = value
+			} else {
+				cwd = cdBase === undefined ? undefined : join(cdBase, value)
+			}
+		}
+	}
+	return paths
+}
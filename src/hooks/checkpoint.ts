@@ -0,0 +1,103 @@
+import { relative } from "node:path"
+import { createCheckpoint, recordCheckpointChanges } from "../agentfs/checkpoints"
+import { getSession } from "../agentfs/client"
+import type { SessionContext } from "../agentfs/types"
+import type { AgentFSConfig } from "../config/schema"
+import { type LoggingClient, log } from "../log"
+import { classifyPath, collectToolPaths } from "./path-policy"
+import { resolveToolPath } from "./resolve-path"
+
+/**
+ * The project-relative paths a tool call is about to change: every path argument of a
+ * checkpointed tool, and the paths a bash command writes (redirections, rm, mv, ...).
+ * Paths outside the project and its sandbox are left out.
+ */
+export function getCheckpointPaths(
+	config: AgentFSConfig,
+	session: SessionContext,
+	tool: string,
+	args: Record<string, unknown>,
+): string[] {
+	const { projectPath } = session
+	const mountPath = session.mount.mounted ? session.mount.mountPath : undefined
+	const isBash = tool.toLowerCase() === "bash"
+	const paths: string[] = []
+
+	for (const { path, write, unresolved } of collectToolPaths(config, tool, args)) {
+		if (unresolved || (isBash && !write)) continue
+		const absolute = resolveToolPath(path, projectPath)
+		const location = classifyPath(absolute, projectPath, mountPath)
+		if (location === "outside") continue
+		paths.push(relative(location === "mount" && mountPath ? mountPath : projectPath, absolute))
+	}
+	return paths
+}
+
+/**
+ * Create the before/after hooks that checkpoint the files each mutating tool call is about
+ * to change and record which of them it changed. Checkpoints are keyed by callID so the
+ * sandbox can be rolled back to before any call, or a single call undone.
+ */
+export function createCheckpointHandlers(config: AgentFSConfig, client?: LoggingClient) {
+	const tools = new Set(config.checkpoints.tools.map((tool) => tool.toLowerCase()))
+	const isCheckpointed = (tool: string) =>
+		config.checkpoints.enabled && tools.has(tool.toLowerCase())
+
+	const before = async (
+		input: { tool: string; sessionID: string; callID: string },
+		output: { args: Record<string, unknown> },
+	) => {
+		if (!isCheckpointed(input.tool)) {
+			return
+		}
+
+		const session = getSession(input.sessionID)
+		if (!session?.mount.mounted && !session?.agent) {
+			log(client, "debug", `Checkpoint skipped: no sandbox for session ${input.sessionID}`)
+			return
+		}
+
+		try {
+			const checkpoint = await createCheckpoint(
+				session,
+				input.callID,
+				input.tool,
+				getCheckpointPaths(config, session, input.tool, output.args),
+				config.checkpoints.maxCheckpoints,
+			)
+			log(client, "debug", `Checkpoint created before ${input.tool}`, {
+				callID: input.callID,
+				paths: checkpoint.paths,
+				files: Object.keys(checkpoint.files).length,
+			})
+		} catch (err) {
+			// A failed checkpoint must not block the tool call
+			log(client, "warn", `Failed to create checkpoint for ${input.callID}: ${err}`)
+		}
+	}
+
+	const after = async (input: { tool: string; sessionID: string; callID: string }) => {
+		if (!isCheckpointed(input.tool)) {
+			return
+		}
+
+		const session = getSession(input.sessionID)
+		if (!session?.mount.mounted && !session?.agent) {
+			return
+		}
+
+		try {
+			const checkpoint = await recordCheckpointChanges(session, input.callID)
+			if (checkpoint) {
+				log(client, "debug", `Recorded the files ${input.tool} changed`, {
+					callID: input.callID,
+					changed: Object.keys(checkpoint.changed ?? {}),
+				})
+			}
+		} catch (err) {
+			log(client, "warn", `Failed to record the changes of ${input.callID}: ${err}`)
+		}
+	}
+
+	return { before, after }
+}
@@ -1,3 +1,4 @@
+import { stopAllMountMonitors } from "../agentfs/health"
 import { killAllMountProcesses } from "../agentfs/mount"
 import { type LoggingClient, log } from "../log"
 
@@ -6,13 +7,14 @@ let storedClient: LoggingClient | undefined
 
 /**
  * Cleanup all mount processes by killing them directly.
- * Killing the FUSE process causes it to unmount (with --auto-unmount).
+ * Each mount supervisor stops its FUSE daemon and unmounts when it is killed.
  */
 function cleanupAllMounts(): void {
 	if (isShuttingDown) return
 	isShuttingDown = true
 
 	log(storedClient, "info", "Killing all mount processes...")
+	stopAllMountMonitors()
 	killAllMountProcesses()
 	log(storedClient, "info", "Cleanup complete")
 }
@@ -1,3 +1,7 @@
+export { createCheckpointHandlers } from "./checkpoint"
 export { registerCleanupHandlers } from "./cleanup"
+export { createMountGuardHandler } from "./mount-guard"
+export { createPathPolicyAfterHandler, createPathPolicyHandler } from "./path-policy"
 export { createPathRewriteAfterHandler, createPathRewriteHandler } from "./path-rewrite"
 export { createSessionHandler } from "./session"
+export { createToolTrackingHandlers } from "./tool-tracking"
@@ -0,0 +1,36 @@
+import { getSession } from "../agentfs/client"
+import type { AgentFSConfig } from "../config/schema"
+import { type LoggingClient, log } from "../log"
+
+// Tools that change files, and would change the real project without a mount to rewrite into
+const MUTATING_TOOLS = new Set(["bash", "write", "edit", "multiedit", "patch"])
+
+// Mutating tools the SDK fallback tools serve from the session database
+const FALLBACK_TOOLS = new Set(["write", "edit"])
+
+/**
+ * Create a hook that refuses mutating tool calls of sessions whose sandbox was lost: the
+ * mount died and could not be remounted, so paths are no longer rewritten into it.
+ * write and edit keep working through the SDK fallback tools unless sdkFallback is off.
+ */
+export function createMountGuardHandler(config: AgentFSConfig, client?: LoggingClient) {
+	const fallback = config.sdkFallback !== "off"
+
+	return (input: { tool: string; sessionID: string; callID: string }) => {
+		const tool = input.tool.toLowerCase()
+		if (!MUTATING_TOOLS.has(tool) || (fallback && FALLBACK_TOOLS.has(tool))) {
+			return
+		}
+
+		const session = getSession(input.sessionID)
+		if (!session?.mount.lost) {
+			return
+		}
+
+		const reason =
+			`The AgentFS sandbox of this session was lost (${session.mount.error ?? "not mounted"}), ` +
+			`so ${input.tool} would change the real project. Restart OpenCode to mount it again`
+		log(client, "warn", `Blocked ${input.tool} call: ${reason}`, { callID: input.callID })
+		throw new Error(reason)
+	}
+}
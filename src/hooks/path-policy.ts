@@ -0,0 +1,299 @@
+import { isAbsolute, join, relative } from "node:path"
+import type { OpencodeClient } from "@opencode-ai/sdk"
+import { Glob } from "bun"
+import { getSession } from "../agentfs/client"
+import { isHostPattern } from "../agentfs/secrets"
+import type { AgentFSConfig } from "../config/schema"
+import { type LoggingClient, log } from "../log"
+import { extractShellPaths, type ShellPath } from "./bash-rewrite"
+import { getPathTools, rewriteFieldPath } from "./path-rewrite"
+import { isInside, resolveToolPath } from "./resolve-path"
+
+// Tools that modify the files named in their path arguments
+const MUTATING_TOOLS = new Set(["write", "edit", "multiedit", "patch"])
+
+// File headers of the patch tool's format, e.g. "*** Update File: src/a.ts"
+const PATCH_FILE_HEADER = /^\*\*\* (?:Add File|Update File|Delete File|Move to): (.+)$/gm
+
+/**
+ * Where a path points: into the session's mounted sandbox, into the real project
+ * (redirected into the sandbox by path rewriting) or outside both.
+ */
+export type PathLocation = "mount" | "project" | "outside"
+
+export function classifyPath(
+	absolute: string,
+	projectPath: string,
+	mountPath?: string,
+): PathLocation {
+	if (mountPath && isInside(absolute, mountPath)) return "mount"
+	if (isInside(absolute, projectPath)) return "project"
+	return "outside"
+}
+
+function showWarning(client: OpencodeClient | undefined, title: string, message: string) {
+	client?.tui.showToast({
+		body: {
+			title,
+			message,
+			variant: "warning",
+			duration: 5000,
+		},
+	})
+}
+
+// Outside paths each session was already warned about, so each path toasts once
+const warnedPaths = new Map<string, Set<string>>()
+
+/**
+ * Forget the outside paths a session was warned about, when the session ends.
+ */
+export function forgetPathWarnings(sessionId: string): void {
+	warnedPaths.delete(sessionId)
+}
+
+/**
+ * Check a project-relative path against a glob. Patterns without a "/" match a file or
+ * directory name at any depth (like .gitignore), and a pattern matching a directory
+ * also covers everything below it.
+ */
+function matchesPattern(path: string, pattern: string): boolean {
+	const glob = new Glob(pattern)
+	const segments = path.split("/")
+	if (!pattern.includes("/")) {
+		return segments.some((segment) => glob.match(segment))
+	}
+	return segments.some((_, index) => glob.match(segments.slice(0, index + 1).join("/")))
+}
+
+/**
+ * Return why a project-relative path may not be accessed, or undefined if it may.
+ * deny rules block every access, readOnly rules block writes.
+ */
+export function checkPathPolicy(
+	config: AgentFSConfig,
+	path: string,
+	write: boolean,
+): string | undefined {
+	const denied = config.pathPolicy.deny.find((pattern) => matchesPattern(path, pattern))
+	if (denied) {
+		return `Access to ${path} is denied by the AgentFS path policy (deny: ${denied})`
+	}
+	const readOnly = write
+		? config.pathPolicy.readOnly.find((pattern) => matchesPattern(path, pattern))
+		: undefined
+	if (readOnly) {
+		return `${path} is read-only by the AgentFS path policy (readOnly: ${readOnly})`
+	}
+	return undefined
+}
+
+/**
+ * Collect the paths a tool call names: its path arguments, the files of a patch
+ * and the paths mentioned in a bash command, resolved against its workdir.
+ */
+export function collectToolPaths(
+	config: AgentFSConfig,
+	tool: string,
+	args: Record<string, unknown>,
+): ShellPath[] {
+	const toolLower = tool.toLowerCase()
+	const paths: ShellPath[] = []
+
+	if (toolLower === "bash" && typeof args.command === "string") {
+		// Relative paths in the command are relative to the directory it runs in
+		const cwdField = ["workdir", "cwd"].find((field) => typeof args[field] === "string")
+		const workdir = cwdField ? (args[cwdField] as string) : undefined
+		for (const shellPath of extractShellPaths(args.command)) {
+			paths.push(
+				workdir && !isAbsolute(shellPath.path)
+					? { ...shellPath, path: join(workdir, shellPath.path) }
+					: shellPath,
+			)
+		}
+	}
+	if (toolLower === "patch" && typeof args.patchText === "string") {
+		for (const match of args.patchText.matchAll(PATCH_FILE_HEADER)) {
+			paths.push({ path: (match[1] as string).trim(), write: true })
+		}
+	}
+
+	const write = MUTATING_TOOLS.has(toolLower)
+	for (const field of getPathTools(config)[toolLower] ?? []) {
+		if (field === "command" || field === "patchText") continue
+		rewriteFieldPath(args, field.split("."), (path) => {
+			paths.push({ path, write })
+			return path
+		})
+	}
+	return paths
+}
+
+/**
+ * Create a hook that enforces config.pathPolicy: deny and readOnly globs for project
+ * paths, and the outside policy for paths that escape the project and the sandbox.
+ * Runs before paths are rewritten into the mount, and throws so a blocked tool call
+ * fails with the reason instead of running.
+ */
+export function createPathPolicyHandler(
+	config: AgentFSConfig,
+	projectPath: string,
+	client?: OpencodeClient,
+) {
+	const loggingClient = client as unknown as LoggingClient | undefined
+	const { deny, readOnly, outside } = config.pathPolicy
+	// Hidden host paths (e.g. ~/.aws) cannot be whited out, so calls naming them are blocked
+	const hiddenHostPaths = config.pathPolicy.hide
+		.filter(isHostPattern)
+		.map((pattern) => resolveToolPath(pattern, projectPath))
+	const enabled =
+		deny.length > 0 || readOnly.length > 0 || hiddenHostPaths.length > 0 || outside !== "allow"
+	const allowOutside = config.pathPolicy.allowOutside.map((dir) =>
+		resolveToolPath(dir, projectPath),
+	)
+
+	const checkOutside = (
+		input: { tool: string; sessionID: string; callID: string },
+		absolute: string,
+		write: boolean,
+	) => {
+		if (outside === "allow" || allowOutside.some((dir) => isInside(absolute, dir))) {
+			return
+		}
+		const reason = `${input.tool} call reaches outside the sandbox: ${absolute}`
+		if (outside === "block") {
+			log(loggingClient, "warn", `Blocked ${reason}`, { callID: input.callID })
+			throw new Error(
+				`${reason}. Only the project and ${allowOutside.join(", ") || "no other directories"} may be used`,
+			)
+		}
+
+		// Reading outside the project is common (ls /usr/bin, grep foo /etc/hosts)
+		if (!write) {
+			return
+		}
+		const warned = warnedPaths.get(input.sessionID) ?? new Set<string>()
+		warnedPaths.set(input.sessionID, warned)
+		if (!warned.has(absolute)) {
+			warned.add(absolute)
+			log(loggingClient, "warn", reason, { callID: input.callID })
+			showWarning(client, "AgentFS: Path Outside Sandbox", reason)
+		}
+	}
+
+	return (
+		input: { tool: string; sessionID: string; callID: string },
+		output: { args: Record<string, unknown> },
+	) => {
+		if (!enabled) {
+			return
+		}
+
+		const session = getSession(input.sessionID)
+		const root = session?.projectPath ?? projectPath
+		const mountPath = session?.mount.mounted ? session.mount.mountPath : undefined
+
+		for (const { path, write, unresolved } of collectToolPaths(config, input.tool, output.args)) {
+			// A path after `cd $DIR` could name any file, so it cannot pass deny or readOnly rules
+			if (unresolved) {
+				if (deny.length === 0 && readOnly.length === 0) continue
+				const reason = `Cannot check ${path} against the AgentFS path policy: the command changes to a directory that is only known when it runs`
+				log(loggingClient, "warn", `Blocked ${input.tool} call: ${reason}`, {
+					callID: input.callID,
+				})
+				throw new Error(reason)
+			}
+
+			const absolute = resolveToolPath(path, root)
+			const hidden = hiddenHostPaths.find((dir) => isInside(absolute, dir))
+			if (hidden) {
+				const reason = `${absolute} is hidden by the AgentFS path policy (hide: ${hidden})`
+				log(loggingClient, "warn", `Blocked ${input.tool} call: ${reason}`, {
+					callID: input.callID,
+				})
+				throw new Error(reason)
+			}
+
+			const location = classifyPath(absolute, root, mountPath)
+			if (location === "outside") {
+				checkOutside(input, absolute, write)
+				continue
+			}
+
+			// Rules are relative to the project; mount paths map onto the same files
+			const base = location === "mount" && mountPath ? mountPath : root
+			const reason = checkPathPolicy(config, relative(base, absolute), write)
+			if (reason) {
+				log(loggingClient, "warn", `Blocked ${input.tool} call: ${reason}`, {
+					callID: input.callID,
+				})
+				throw new Error(reason)
+			}
+		}
+	}
+}
+
+// Tools that search a directory and list the files they found
+const SEARCH_TOOLS = new Set(["grep", "glob"])
+
+/**
+ * Create a hook that removes denied files from grep and glob results. A search over a
+ * directory reads every file below it, so deny rules are applied to what it found.
+ * Runs after mount paths in the output were rewritten back to the project.
+ */
+export function createPathPolicyAfterHandler(
+	config: AgentFSConfig,
+	projectPath: string,
+	client?: LoggingClient,
+) {
+	return (
+		input: { tool: string; sessionID: string; callID: string },
+		output: { title: string; output: string; metadata: unknown },
+	) => {
+		const toolLower = input.tool.toLowerCase()
+		if (config.pathPolicy.deny.length === 0 || !SEARCH_TOOLS.has(toolLower) || !output.output) {
+			return
+		}
+
+		const session = getSession(input.sessionID)
+		const root = session?.projectPath ?? projectPath
+		const mountPath = session?.mount.mounted ? session.mount.mountPath : undefined
+		const isDenied = (path: string) => {
+			if (!isAbsolute(path)) return false
+			const location = classifyPath(path, root, mountPath)
+			if (location === "outside") return false
+			const base = location === "mount" && mountPath ? mountPath : root
+			return checkPathPolicy(config, relative(base, path), false) !== undefined
+		}
+
+		// glob lists one file per line; grep lists "<file>:" followed by its matching lines
+		const kept: string[] = []
+		let removed = 0
+		let skipping = false
+		for (const line of output.output.split("\n")) {
+			if (toolLower === "glob") {
+				if (isDenied(line)) removed++
+				else kept.push(line)
+				continue
+			}
+			if (line.endsWith(":") && isAbsolute(line)) {
+				skipping = isDenied(line.slice(0, -1))
+				if (skipping) removed++
+			}
+			if (!skipping) kept.push(line)
+			else if (line === "") skipping = false
+		}
+		if (removed === 0) {
+			return
+		}
+
+		log(client, "info", `Removed ${removed} denied files from ${input.tool} results`, {
+			callID: input.callID,
+		})
+		const matches = kept.filter((line) => /^ {2}Line \d+:/.test(line)).length
+		const found = toolLower === "glob" ? kept.some(isAbsolute) : matches > 0
+		output.output = found
+			? kept.join("\n").replace(/^Found \d+ matches/, `Found ${matches} matches`)
+			: "No files found"
+	}
+}
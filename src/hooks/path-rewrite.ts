@@ -2,21 +2,88 @@ import { platform } from "node:os"
 import { getSession } from "../agentfs/client"
 import type { AgentFSConfig } from "../config/schema"
 import { type LoggingClient, log } from "../log"
+import { rewriteBashArgs } from "./bash-rewrite"
+import { resolveToolPath } from "./resolve-path"
 
 const IS_LINUX = platform() === "linux"
 
 // Tools that have path arguments that should be rewritten
 // Keys are lowercase for case-insensitive matching
 // Parameter names must match OpenCode's actual schema (camelCase)
+// Fields are dot paths into the args; a key ending in [] steps into each array element
 const PATH_TOOLS: Record<string, string[]> = {
 	// File tools - OpenCode uses "filePath" (camelCase)
 	read: ["filePath"],
 	write: ["filePath"],
 	edit: ["filePath"],
+	multiedit: ["filePath", "edits[].filePath"],
+	list: ["path"],
 	glob: ["path"],
 	grep: ["path"],
-	// Bash - we rewrite paths in the command string
+	// Bash and patch - we rewrite paths in the command and patch text
 	bash: ["command"],
+	patch: ["patchText"],
+}
+
+// Arguments holding free text that may mention paths anywhere, rather than a single path
+const TEXT_ARGS: Record<string, string[]> = {
+	bash: ["command"],
+	patch: ["patchText"],
+}
+
+/**
+ * Build the map of tools to path arguments: PATH_TOOLS plus the configured pathArgs.
+ * Fields configured for a built-in tool are added to its defaults.
+ */
+export function getPathTools(config: AgentFSConfig): Record<string, string[]> {
+	const tools = { ...PATH_TOOLS }
+	for (const [tool, fields] of Object.entries(config.pathArgs)) {
+		const toolLower = tool.toLowerCase()
+		tools[toolLower] = [...new Set([...(tools[toolLower] ?? []), ...fields])]
+	}
+	return tools
+}
+
+/**
+ * Check if a tool has path arguments that are rewritten into the mount.
+ */
+export function isPathTool(tool: string, config?: AgentFSConfig): boolean {
+	const toolLower = tool.toLowerCase()
+	return (
+		toolLower in PATH_TOOLS ||
+		Object.keys(config?.pathArgs ?? {}).some((name) => name.toLowerCase() === toolLower)
+	)
+}
+
+/**
+ * Replace the strings a field path points at with rewrite(value), in place.
+ * E.g. "edits[].filePath" rewrites filePath in every element of the edits array.
+ * Missing fields and non-string values are left alone.
+ */
+function rewriteFieldPath(
+	value: unknown,
+	segments: string[],
+	rewrite: (path: string) => string,
+): unknown {
+	const [segment, ...rest] = segments
+	if (segment === undefined) {
+		return typeof value === "string" ? rewrite(value) : value
+	}
+	if (typeof value !== "object" || value === null) {
+		return value
+	}
+
+	const record = value as Record<string, unknown>
+	if (segment.endsWith("[]")) {
+		const key = segment.slice(0, -2)
+		const items = record[key]
+		if (Array.isArray(items)) {
+			record[key] = items.map((item) => rewriteFieldPath(item, rest, rewrite))
+		}
+	} else if (segment in record) {
+		record[segment] = rewriteFieldPath(record[segment], rest, rewrite)
+	}
+	return value
 }
 
 /**
@@ -82,6 +149,17 @@ function toMountPath(virtualPath: string, projectPath: string, mountPath: string
 	return normalized
 }
 
+/**
+ * Convert a tool path argument to a mount path. Relative, ~ and file:// paths are resolved
+ * against the project first, and symlinks into the project are followed.
+ * Paths outside the project are returned unchanged.
+ */
+function toolPathToMount(value: string, projectPath: string, mountPath: string): string {
+	const resolved = resolveToolPath(value, projectPath)
+	const rewritten = toMountPath(resolved, projectPath, mountPath)
+	return rewritten === normalizePath(resolved) ? value : rewritten
+}
+
 /**
  * Convert a mount path back to a project path.
  * E.g., /mnt/session/src/file.ts -> /home/user/project/src/file.ts
@@ -246,6 +324,8 @@ function containsMountPath(text: string, mountPath: string): boolean {
  * This allows tools to operate on the sandboxed filesystem transparently.
  */
 export function createPathRewriteHandler(config: AgentFSConfig, client?: LoggingClient) {
+	const pathTools = getPathTools(config)
+
 	return (
 		input: { tool: string; sessionID: string; callID: string },
 		output: { args: Record<string, unknown> },
@@ -275,9 +355,9 @@ export function createPathRewriteHandler(config: AgentFSConfig, client?: Logging
 
 		// Use lowercase for case-insensitive tool matching
 		const toolLower = input.tool.toLowerCase()
-		const pathFields = PATH_TOOLS[toolLower]
+		const pathFields = pathTools[toolLower]
 		if (!pathFields) {
-			log(client, "debug", `Path rewrite skipped: tool ${input.tool} not in PATH_TOOLS`)
+			log(client, "debug", `Path rewrite skipped: tool ${input.tool} has no path arguments`)
 			return
 		}
 
@@ -288,36 +368,31 @@ export function createPathRewriteHandler(config: AgentFSConfig, client?: Logging
 			args: output.args,
 		})
 
-		for (const field of pathFields) {
-			const value = output.args[field]
-			if (typeof value !== "string") {
-				log(client, "debug", `Path rewrite: field ${field} is not a string`, { value })
-				continue
-			}
+		// In shell mode bash commands are tokenized and pinned to a working directory in the mount
+		const shellBash = toolLower === "bash" && config.bashRewrite === "shell"
+		if (shellBash) {
+			rewriteBashArgs(output.args, projectPath, mountPath, client)
+		}
 
-			if (toolLower === "bash" && field === "command") {
-				// For bash commands, rewrite all path occurrences in the string
-				const rewritten = rewritePathsInString(value, projectPath, mountPath)
-				if (rewritten !== value) {
-					log(client, "info", `Rewriting Bash command paths`, {
-						from: projectPath,
-						to: mountPath,
-					})
-					output.args[field] = rewritten
-				}
-			} else {
-				// For file path arguments, use proper path conversion
-				const rewritten = toMountPath(value, projectPath, mountPath)
+		for (const field of pathFields) {
+			if (shellBash && field === "command") continue
+			const isText = TEXT_ARGS[toolLower]?.includes(field) ?? false
+			rewriteFieldPath(output.args, field.split("."), (value) => {
+				// Free text (e.g. bash commands) gets every path occurrence rewritten,
+				// path arguments get proper path conversion
+				const rewritten = isText
+					? rewritePathsInString(value, projectPath, mountPath)
+					: toolPathToMount(value, projectPath, mountPath)
 				if (rewritten !== value) {
 					log(client, "info", `Rewriting path`, {
 						tool: input.tool,
 						field,
-						from: value,
-						to: rewritten,
+						from: isText ? projectPath : value,
+						to: isText ? mountPath : rewritten,
 					})
-					output.args[field] = rewritten
 				}
-			}
+				return rewritten
+			})
 		}
 	}
 }
@@ -362,21 +437,53 @@ export function createPathRewriteAfterHandler(config: AgentFSConfig, client?: Lo
 			}
 		}
 
-		// Only rewrite filepath in metadata if it contains a mount path reference
-		if (hasStringField(output.metadata, "filepath")) {
-			const filepath = output.metadata.filepath
-			if (containsMountPath(filepath, mountPath)) {
-				const rewritten = rewritePathsInOutput(filepath, mountPath, projectPath, client)
-				if (rewritten !== filepath) {
-					log(client, "info", `Rewriting metadata.filepath`, {
-						from: filepath,
-						to: rewritten,
-					})
-					output.metadata.filepath = rewritten
+		// Rewrite the output body (grep matches, bash stdout, compiler errors, ...)
+		if (output.output && containsMountPath(output.output, mountPath)) {
+			output.output = rewritePathsInOutput(output.output, mountPath, projectPath, client)
+		}
+
+		// Rewrite every string in metadata, e.g. filepath and nested diffs
+		const rewrittenFields = rewriteMountPathsDeep(output.metadata, mountPath, projectPath, client)
+		if (rewrittenFields > 0) {
+			log(client, "info", `Rewrote ${rewrittenFields} metadata fields`, { tool: input.tool })
+		}
+	}
+}
+
+/**
+ * Rewrite mount paths in every string field of an object or array, recursively and in place.
+ * Strings are only run through the rewrite when they mention the mount, which keeps large
+ * outputs cheap. Returns the number of fields rewritten.
+ */
+function rewriteMountPathsDeep(
+	value: unknown,
+	mountPath: string,
+	projectPath: string,
+	client?: LoggingClient,
+	seen = new Set<object>(),
+): number {
+	if (typeof value !== "object" || value === null || seen.has(value)) {
+		return 0
+	}
+	seen.add(value)
+
+	const record = value as Record<string, unknown>
+	let rewritten = 0
+	for (const key of Object.keys(record)) {
+		const field = record[key]
+		if (typeof field === "string") {
+			if (containsMountPath(field, mountPath)) {
+				const replaced = rewritePathsInOutput(field, mountPath, projectPath, client)
+				if (replaced !== field) {
+					record[key] = replaced
+					rewritten++
 				}
 			}
+		} else {
+			rewritten += rewriteMountPathsDeep(field, mountPath, projectPath, client, seen)
 		}
 	}
+	return rewritten
 }
 
 // Export for testing
@@ -389,4 +496,6 @@ export {
 	extractAgentFSPattern,
 	hasStringField,
 	containsMountPath,
+	rewriteFieldPath,
+	rewriteMountPathsDeep,
 }
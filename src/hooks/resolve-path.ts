@@ -0,0 +1,64 @@
+import { realpathSync } from "node:fs"
+import { homedir } from "node:os"
+import { basename, dirname, isAbsolute, join, relative, resolve, sep } from "node:path"
+import { fileURLToPath } from "node:url"
+
+/**
+ * Check if a path is root itself or inside it. Both must be absolute and normalized.
+ */
+export function isInside(path: string, root: string): boolean {
+	const rel = relative(root, path)
+	return rel !== ".." && !rel.startsWith(`..${sep}`) && !isAbsolute(rel)
+}
+
+/**
+ * Resolve symlinks in the longest existing prefix of a path, so paths that do not exist
+ * yet (e.g. a file about to be written) still resolve through symlinked directories.
+ */
+function realpathOfExisting(path: string): string | undefined {
+	let existing = path
+	let rest = ""
+	for (;;) {
+		try {
+			return join(realpathSync(existing), rest)
+		} catch {
+			const parent = dirname(existing)
+			if (parent === existing) return undefined
+			rest = join(basename(existing), rest)
+			existing = parent
+		}
+	}
+}
+
+/**
+ * Turn a tool path argument into an absolute path, the way a tool running in the project
+ * would see it: file:// URIs are converted, ~ is expanded and relative paths are resolved
+ * against projectPath. A path that reaches the project through a symlink (or a project that
+ * is itself reached through one) is returned as the equivalent path under projectPath.
+ */
+export function resolveToolPath(value: string, projectPath: string): string {
+	let path = value
+	if (path.startsWith("file://")) {
+		try {
+			path = fileURLToPath(path)
+		} catch {
+			return resolve(projectPath, path)
+		}
+	}
+	if (path === "~" || path.startsWith("~/")) {
+		path = join(homedir(), path.slice(1))
+	}
+
+	const project = resolve(projectPath)
+	const absolute = resolve(project, path)
+	if (isInside(absolute, project)) {
+		return absolute
+	}
+
+	const realPath = realpathOfExisting(absolute)
+	const realProject = realpathOfExisting(project)
+	if (realPath && realProject && isInside(realPath, realProject)) {
+		return join(project, relative(realProject, realPath))
+	}
+	return absolute
+}
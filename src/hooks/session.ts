@@ -1,17 +1,32 @@
-import { platform } from "node:os"
+import { rmdir } from "node:fs/promises"
 import type { Event, OpencodeClient } from "@opencode-ai/sdk"
+import { listSandboxChanges } from "../agentfs/changes"
+import { forgetCheckpoints } from "../agentfs/checkpoints"
+import {
+	isStackedChild,
+	mergeChildSession,
+	stackChildSession,
+	unstackChildSession,
+} from "../agentfs/child-sessions"
 import {
 	closeDatabase,
 	closeSession,
 	createSessionContext,
 	getSession,
+	isSharedSession,
 	openDatabase,
+	shareSession,
 } from "../agentfs/client"
-import { mountOverlay, unmountOverlay } from "../agentfs/mount"
+import { forkSession } from "../agentfs/fork"
+import { startMountMonitor, stopMountMonitor } from "../agentfs/health"
+import { getMountBackend, mountSandbox, unmountSandbox } from "../agentfs/mount"
+import { adoptOrphanMount } from "../agentfs/recovery"
+import { hideSecretFiles } from "../agentfs/secrets"
+import { flushToolCalls, hasPendingToolCalls } from "../agentfs/tool-calls"
+import type { SessionContext } from "../agentfs/types"
 import type { AgentFSConfig } from "../config/schema"
 import { type LoggingClient, log } from "../log"
-
-const IS_LINUX = platform() === "linux"
+import { forgetPathWarnings } from "./path-policy"
 
 // Track sessions currently being initialized to prevent duplicate concurrent attempts
 // This is needed because the plugin may be loaded multiple times and receive duplicate events
@@ -28,10 +43,47 @@ function showError(client: OpencodeClient, title: string, message: string) {
 	})
 }
 
+function showWarning(client: OpencodeClient, title: string, message: string) {
+	client.tui.showToast({
+		body: {
+			title,
+			message,
+			variant: "warning",
+			duration: 5000,
+		},
+	})
+}
+
+/**
+ * Whether a git worktree sandbox stays on disk after its session ends. Only a worktree
+ * holding unapplied changes is kept, and only when retention.keepUnapplied asks for it;
+ * garbage collection removes it later with the session's database.
+ */
+async function keepWorktree(
+	config: AgentFSConfig,
+	context: SessionContext,
+	loggingClient: LoggingClient,
+): Promise<boolean> {
+	if (context.mount.backend !== "git-worktree" || !context.mount.mounted) {
+		return false
+	}
+	if (!config.retention.keepUnapplied) {
+		return false
+	}
+	try {
+		return (await listSandboxChanges(context)).length > 0
+	} catch (err) {
+		log(loggingClient, "warn", `Could not list the worktree's changes, keeping it: ${err}`)
+		return true
+	}
+}
+
 /**
  * Initialize a session - either new or resumed.
  * For new sessions: creates context, mounts overlay, opens database
  * For resumed sessions: creates context and opens database (no mount needed - overlay persists)
+ * New child sessions get their sandbox from their parent according to childSessions:
+ * "share" reuses the parent's context, "fork" and "stack" start from a copy of it.
  */
 async function initializeSession(
 	config: AgentFSConfig,
@@ -40,6 +92,7 @@ async function initializeSession(
 	client: OpencodeClient,
 	loggingClient: LoggingClient,
 	isNewSession: boolean,
+	parentSessionId?: string,
 ): Promise<void> {
 	// Check if this session is already being initialized or exists
 	if (initializingSessions.has(sessionId) || getSession(sessionId)) {
@@ -47,6 +100,20 @@ async function initializeSession(
 		return
 	}
 
+	// Child sessions can reuse their parent's sandbox instead of getting their own
+	if (isNewSession && parentSessionId && config.childSessions === "share") {
+		if (getSession(parentSessionId)) {
+			shareSession(sessionId, parentSessionId)
+			log(loggingClient, "info", `Session ${sessionId} shares the sandbox of ${parentSessionId}`)
+			return
+		}
+		log(
+			loggingClient,
+			"warn",
+			`Parent session ${parentSessionId} is not initialized, giving ${sessionId} its own sandbox`,
+		)
+	}
+
 	// Mark session as initializing to prevent concurrent attempts
 	initializingSessions.add(sessionId)
 
@@ -62,15 +129,22 @@ async function initializeSession(
 			mountPath: context.mount.mountPath,
 		})
 
-		// Auto-mount if configured (Linux only)
+		// Auto-mount if configured and the mount backend works on this host
 		// For both new and resumed sessions - the mount may not persist if OpenCode was killed
+		const backend = getMountBackend(context.mount.backend)
 		let mountSucceeded = false
-		if (config.autoMount && IS_LINUX) {
-			log(loggingClient, "debug", `Auto-mount enabled, attempting to mount overlay`)
+		if (config.autoMount && backend.isSupported()) {
+			log(loggingClient, "debug", `Auto-mount enabled, attempting to mount ${backend.name} sandbox`)
 			try {
-				// mountOverlay runs: agentfs init --base <projectPath> && agentfs mount
-				await mountOverlay(context.mount, projectPath, loggingClient)
-				log(loggingClient, "info", `Overlay mounted successfully at ${context.mount.mountPath}`)
+				// A mount left by a crashed OpenCode process is reused as is
+				if (await adoptOrphanMount(context.mount, loggingClient)) {
+					log(loggingClient, "info", `Reusing sandbox mounted at ${context.mount.mountPath}`)
+				} else {
+					// fuse runs: agentfs init --base <projectPath> && agentfs mount
+					// git-worktree runs: git worktree add <mountPath>
+					await mountSandbox(context.mount, projectPath, loggingClient)
+					log(loggingClient, "info", `Sandbox mounted successfully at ${context.mount.mountPath}`)
+				}
 				mountSucceeded = true
 			} catch (err) {
 				const errorMessage = err instanceof Error ? err.message : String(err)
@@ -82,13 +156,13 @@ async function initializeSession(
 			log(
 				loggingClient,
 				"debug",
-				`Auto-mount skipped (autoMount=${config.autoMount}, IS_LINUX=${IS_LINUX})`,
+				`Auto-mount skipped (autoMount=${config.autoMount}, ${backend.name} supported=${backend.isSupported()})`,
 			)
 		}
 
 		// Open the database AFTER CLI operations are complete
-		// Skip if mount succeeded - the FUSE daemon holds the database lock
-		if (mountSucceeded) {
+		// Skip if the mount holds the database lock (the FUSE daemon does)
+		if (mountSucceeded && backend.holdsDatabaseLock) {
 			log(loggingClient, "debug", `Skipping SDK database open - FUSE daemon holds the lock`)
 		} else {
 			log(loggingClient, "debug", `Opening database for session ${sessionId}`)
@@ -108,6 +182,55 @@ async function initializeSession(
 				}
 				await context.agent.kv.set("session:projectPath", projectPath)
 				log(loggingClient, "debug", `Session metadata stored`)
+
+				// Write any tool calls tracked before the database was available
+				await flushToolCalls(sessionId)
+			}
+		}
+
+		// Hide secret files (.env, keys, ...) from the sandbox before the agent can see them
+		// A failed scan leaves the session usable, so it only warns
+		if (context.mount.mounted || context.agent) {
+			try {
+				await hideSecretFiles(context, config.pathPolicy.hide, loggingClient)
+			} catch (err) {
+				const errorMessage = err instanceof Error ? err.message : String(err)
+				log(loggingClient, "warn", `Secret files could not be hidden: ${errorMessage}`)
+				showWarning(client, "AgentFS: Secret Files Not Hidden", errorMessage)
+			}
+		}
+
+		// Remount the sandbox if the mount dies while the session runs
+		if (context.mount.mounted && config.mountHealth.enabled) {
+			startMountMonitor(
+				context,
+				{
+					intervalMs: config.mountHealth.intervalMs,
+					maxRemounts: config.mountHealth.maxRemounts,
+					onFailure: (message) => showError(client, "AgentFS Mount Lost", message),
+				},
+				loggingClient,
+			)
+		}
+
+		// Start child sessions from their parent's sandbox state
+		const childMode = config.childSessions
+		if (isNewSession && parentSessionId && (childMode === "fork" || childMode === "stack")) {
+			if (getSession(parentSessionId)) {
+				log(loggingClient, "info", `Forking sandbox from parent session ${parentSessionId}`, {
+					childMode,
+				})
+				if (childMode === "stack") {
+					await stackChildSession(sessionId, parentSessionId, loggingClient)
+				} else {
+					await forkSession(parentSessionId, sessionId, loggingClient)
+				}
+			} else {
+				log(
+					loggingClient,
+					"warn",
+					`Parent session ${parentSessionId} is not initialized, starting from the project`,
+				)
 			}
 		}
 
@@ -122,6 +245,27 @@ async function initializeSession(
 	}
 }
 
+/**
+ * Merge a stacked child session into its parent, reporting conflicts with a toast.
+ */
+async function mergeIntoParent(
+	sessionId: string,
+	client: OpencodeClient,
+	loggingClient: LoggingClient,
+): Promise<void> {
+	try {
+		const result = await mergeChildSession(sessionId, loggingClient)
+		if (result.conflicts.length > 0) {
+			const paths = result.conflicts.map((conflict) => conflict.path).join(", ")
+			showError(client, "AgentFS Merge Conflicts", `Not merged from ${sessionId}: ${paths}`)
+		}
+	} catch (err) {
+		const errorMessage = err instanceof Error ? err.message : String(err)
+		log(loggingClient, "error", `AgentFS Merge Failed: ${errorMessage}`)
+		showError(client, "AgentFS Merge Failed", errorMessage)
+	}
+}
+
 export function createSessionHandler(
 	config: AgentFSConfig,
 	projectPath: string,
@@ -144,7 +288,16 @@ export function createSessionHandler(
 			const sessionId = event.properties.info.id
 			if (!sessionId) return
 
-			await initializeSession(config, sessionId, projectPath, client, loggingClient, true)
+			const parentSessionId = event.properties.info.parentID
+			await initializeSession(
+				config,
+				sessionId,
+				projectPath,
+				client,
+				loggingClient,
+				true,
+				parentSessionId,
+			)
 			return
 		}
 
@@ -166,12 +319,35 @@ export function createSessionHandler(
 			return
 		}
 
+		// Handle session.idle event - stacked child sessions merge their work into the parent
+		if (event.type === "session.idle") {
+			const sessionId = event.properties.sessionID
+			if (!sessionId || !isStackedChild(sessionId)) return
+
+			await mergeIntoParent(sessionId, client, loggingClient)
+			return
+		}
+
 		// Handle session.deleted event
 		if (event.type === "session.deleted") {
 			const sessionId = event.properties.info.id
 			if (!sessionId) return
 
 			log(loggingClient, "info", `Session ending: ${sessionId}`)
+			forgetPathWarnings(sessionId)
+
+			// A shared child only unlinks - the sandbox belongs to the parent
+			if (isSharedSession(sessionId)) {
+				await closeSession(sessionId)
+				log(loggingClient, "info", `Session ${sessionId} unlinked from its parent's sandbox`)
+				return
+			}
+
+			// A stacked child hands its last changes to the parent before going away
+			if (isStackedChild(sessionId)) {
+				await mergeIntoParent(sessionId, client, loggingClient)
+				unstackChildSession(sessionId)
+			}
 
 			const context = getSession(sessionId)
 			if (!context) {
@@ -179,6 +355,9 @@ export function createSessionHandler(
 				return
 			}
 
+			// Unmounting below must not look like a crashed mount
+			stopMountMonitor(sessionId)
+
 			try {
 				// Store session end time before closing
 				if (context.agent) {
@@ -192,21 +371,66 @@ export function createSessionHandler(
 				await closeDatabase(sessionId)
 				log(loggingClient, "debug", `Database closed`)
 
+				// Decided while the worktree is still mounted and its changes can be listed
+				const keep = await keepWorktree(config, context, loggingClient)
+
 				// Unmount if mounted
+				// A failed unmount is reported, but the rest of the cleanup still runs
 				if (context.mount.mounted) {
-					log(loggingClient, "debug", `Unmounting overlay at ${context.mount.mountPath}`)
-					await unmountOverlay(context.mount, loggingClient)
-					log(loggingClient, "info", `Overlay unmounted`)
+					log(loggingClient, "debug", `Unmounting sandbox at ${context.mount.mountPath}`)
+					try {
+						await unmountSandbox(context.mount, loggingClient)
+						log(loggingClient, "info", `Sandbox unmounted`)
+					} catch (err) {
+						const errorMessage = err instanceof Error ? err.message : String(err)
+						log(loggingClient, "error", `AgentFS Unmount Failed: ${errorMessage}`)
+						showError(client, "AgentFS Unmount Failed", errorMessage)
+					}
+					if (context.mount.error) {
+						log(loggingClient, "warn", context.mount.error)
+					}
+				}
+
+				// Unmounting leaves a worktree on disk for the next mount; the session is gone
+				if (context.mount.backend === "git-worktree") {
+					if (keep) {
+						log(
+							loggingClient,
+							"info",
+							`Keeping the worktree at ${context.mount.mountPath} with unapplied changes`,
+						)
+					} else {
+						try {
+							await getMountBackend("git-worktree").discard(context.mount, loggingClient)
+							await rmdir(context.mount.mountPath).catch(() => {})
+							log(loggingClient, "info", `Worktree removed`)
+						} catch (err) {
+							log(loggingClient, "warn", `Could not remove the worktree: ${err}`)
+						}
+					}
+				}
+
+				// Flush tool calls recorded while the FUSE daemon held the database lock
+				if (hasPendingToolCalls(sessionId)) {
+					log(loggingClient, "debug", `Opening database to flush tracked tool calls`)
+					await openDatabase(sessionId)
+					const flushed = await flushToolCalls(sessionId)
+					log(loggingClient, "debug", `Flushed ${flushed} tracked tool calls`)
 				}
 
-				// Remove session from memory
-				log(loggingClient, "debug", `Removing session from memory`)
-				await closeSession(sessionId)
 				log(loggingClient, "info", `Session ${sessionId} cleaned up successfully`)
 			} catch (err) {
 				const errorMessage = err instanceof Error ? err.message : String(err)
 				log(loggingClient, "error", `AgentFS Cleanup Failed: ${errorMessage}`)
 				showError(client, "AgentFS Cleanup Failed", errorMessage)
+			} finally {
+				// Remove session from memory even after a failure, or garbage collection
+				// would treat it as in use for as long as the process runs
+				log(loggingClient, "debug", `Removing session from memory`)
+				await closeSession(sessionId).catch((err) => {
+					log(loggingClient, "warn", `Could not close the session database: ${err}`)
+				})
+				forgetCheckpoints(sessionId)
 			}
 		}
 	}
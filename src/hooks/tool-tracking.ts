@@ -0,0 +1,166 @@
+import { recordToolCall } from "../agentfs/tool-calls"
+import type { ToolCallRecord } from "../agentfs/types"
+import type { AgentFSConfig } from "../config/schema"
+import { type LoggingClient, log } from "../log"
+import { isPathTool } from "./path-rewrite"
+
+interface StartedCall {
+	tool: string
+	sessionID: string
+	args: Record<string, unknown>
+	startedAt: number
+}
+
+// OpenCode skips the after hook when a tool throws, so a call that never completes after
+// this long is recorded as failed and forgotten
+const STALE_CALL_MS = 15 * 60 * 1000
+
+/**
+ * Decide whether a tool call should be tracked according to the toolTracking config.
+ * When trackAll is false, only tools that touch the filesystem are tracked.
+ */
+function shouldTrack(config: AgentFSConfig, tool: string): boolean {
+	const { enabled, trackAll, excludeTools } = config.toolTracking
+	if (!enabled) {
+		return false
+	}
+
+	const toolLower = tool.toLowerCase()
+	if (excludeTools?.some((excluded) => excluded.toLowerCase() === toolLower)) {
+		return false
+	}
+
+	return trackAll || isPathTool(toolLower, config)
+}
+
+/**
+ * Extract an error message from tool output metadata, if the tool reported a failure.
+ * OpenCode tools report failures through metadata.error, and bash through a non-zero exit code.
+ */
+function getToolError(metadata: unknown): string | undefined {
+	if (typeof metadata !== "object" || metadata === null) {
+		return undefined
+	}
+
+	const { error, exit } = metadata as Record<string, unknown>
+	if (typeof error === "string" && error) {
+		return error
+	}
+	if (typeof exit === "number" && exit !== 0) {
+		return `Exited with code ${exit}`
+	}
+	return undefined
+}
+
+/**
+ * Create the before/after hooks that record tool calls to the session's AgentFS database.
+ * The before hook should run after path rewriting so the recorded args are the ones executed.
+ */
+export function createToolTrackingHandlers(
+	config: AgentFSConfig,
+	client?: LoggingClient,
+	staleCallMs = STALE_CALL_MS,
+) {
+	// In-flight calls keyed by callID
+	const startedCalls = new Map<string, StartedCall>()
+
+	const record = async (record: ToolCallRecord) => {
+		try {
+			await recordToolCall(record)
+			log(client, "debug", `Tracked tool call ${record.tool}`, {
+				callID: record.callID,
+				durationMs: record.completedAt - record.startedAt,
+				success: !record.error,
+			})
+		} catch (err) {
+			// Tracking must never break tool execution
+			log(client, "warn", `Failed to track tool call ${record.tool}: ${err}`)
+		}
+	}
+
+	// Calls whose tool threw never reach the after hook
+	const evictStaleCalls = async (now: number) => {
+		for (const [callID, started] of startedCalls) {
+			if (now - started.startedAt < staleCallMs) continue
+			startedCalls.delete(callID)
+			await record({
+				tool: started.tool,
+				callID,
+				sessionID: started.sessionID,
+				args: started.args,
+				startedAt: started.startedAt,
+				completedAt: now,
+				error: "The tool did not report a result; it most likely threw an error",
+			})
+		}
+	}
+
+	const before = async (
+		input: { tool: string; sessionID: string; callID: string },
+		output: { args: Record<string, unknown> },
+	) => {
+		const now = Date.now()
+		await evictStaleCalls(now)
+		if (!shouldTrack(config, input.tool)) {
+			return
+		}
+
+		startedCalls.set(input.callID, {
+			tool: input.tool,
+			sessionID: input.sessionID,
+			args: structuredClone(output.args),
+			startedAt: now,
+		})
+	}
+
+	/**
+	 * Record a call that was refused before it ran, e.g. by the path policy.
+	 */
+	const blocked = async (
+		input: { tool: string; sessionID: string; callID: string },
+		output: { args: Record<string, unknown> },
+		error: unknown,
+	) => {
+		if (!shouldTrack(config, input.tool)) {
+			return
+		}
+		const now = Date.now()
+		await record({
+			tool: input.tool,
+			callID: input.callID,
+			sessionID: input.sessionID,
+			args: structuredClone(output.args),
+			startedAt: now,
+			completedAt: now,
+			error: `Blocked: ${error instanceof Error ? error.message : String(error)}`,
+		})
+	}
+
+	const after = async (
+		input: { tool: string; sessionID: string; callID: string },
+		output: { title: string; output: string; metadata: unknown },
+	) => {
+		const started = startedCalls.get(input.callID)
+		if (!started) {
+			return
+		}
+		startedCalls.delete(input.callID)
+
+		await record({
+			tool: input.tool,
+			callID: input.callID,
+			sessionID: input.sessionID,
+			args: started.args,
+			title: output.title,
+			metadata: output.metadata,
+			startedAt: started.startedAt,
+			completedAt: Date.now(),
+			error: getToolError(output.metadata),
+		})
+	}
+
+	return { before, blocked, after }
+}
+
+// Export for testing
+export { getToolError, shouldTrack }
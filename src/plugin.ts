@@ -1,12 +1,23 @@
 import type { Hooks, Plugin } from "@opencode-ai/plugin"
+import { checkAgentFSCli } from "./agentfs/cli"
+import { getMountRoot } from "./agentfs/client"
+import { getMountBackend } from "./agentfs/mount"
+import { recoverOrphanMounts } from "./agentfs/recovery"
+import { collectGarbage } from "./agentfs/retention"
 import { parseConfig } from "./config/schema"
 import {
+	createCheckpointHandlers,
+	createMountGuardHandler,
+	createPathPolicyAfterHandler,
+	createPathPolicyHandler,
 	createPathRewriteAfterHandler,
 	createPathRewriteHandler,
 	createSessionHandler,
+	createToolTrackingHandlers,
 	registerCleanupHandlers,
 } from "./hooks"
 import { log } from "./log"
+import { createFallbackTools, createSandboxTools } from "./tools"
 
 export const AgentFSPlugin: Plugin = async (input) => {
 	const { project, directory, client } = input
@@ -23,6 +34,7 @@ export const AgentFSPlugin: Plugin = async (input) => {
 
 	log(loggingClient, "debug", `Configuration parsed`, {
 		autoMount: config.autoMount,
+		mountBackend: config.mountBackend,
 		toolTracking: config.toolTracking.enabled,
 		trackAll: config.toolTracking.trackAll,
 		excludeTools: config.toolTracking.excludeTools,
@@ -31,23 +43,79 @@ export const AgentFSPlugin: Plugin = async (input) => {
 	// Register process signal handlers to cleanup sessions on termination
 	registerCleanupHandlers(loggingClient)
 
+	// Catch a missing or unsupported agentfs CLI before the first session tries to mount
+	const mountBackend = getMountBackend(config.mountBackend)
+	let mountAvailable = config.autoMount && mountBackend.isSupported()
+	if (mountAvailable && mountBackend.name === "fuse") {
+		const cliError = await checkAgentFSCli(config.cli, loggingClient)
+		if (cliError) {
+			mountAvailable = false
+			log(loggingClient, "error", `AgentFS sandboxes will not mount: ${cliError}`)
+			client.tui.showToast({
+				body: {
+					title: "AgentFS CLI Unavailable",
+					message: cliError,
+					variant: "error",
+					duration: 5000,
+				},
+			})
+		}
+	}
+
+	// Unmount or reattach mounts left behind by OpenCode processes that were killed
+	try {
+		await recoverOrphanMounts(getMountRoot(config), loggingClient)
+	} catch (err) {
+		log(loggingClient, "warn", `Orphaned mount recovery failed: ${err}`)
+	}
+
+	// Delete session databases past the retention limits
+	if (config.retention.enabled) {
+		try {
+			await collectGarbage(config, directory, loggingClient)
+		} catch (err) {
+			log(loggingClient, "warn", `Session garbage collection failed: ${err}`)
+		}
+	}
+
 	// Create hook handlers
 	log(loggingClient, "debug", `Creating hook handlers`)
 	const sessionHandler = createSessionHandler(config, directory, client)
+	const mountGuardHandler = createMountGuardHandler(config, loggingClient)
+	const pathPolicyHandler = createPathPolicyHandler(config, directory, client)
 	const pathRewriteBeforeHandler = createPathRewriteHandler(config, loggingClient)
 	const pathRewriteAfterHandler = createPathRewriteAfterHandler(config, loggingClient)
+	const pathPolicyAfterHandler = createPathPolicyAfterHandler(config, directory, loggingClient)
+	const toolTracking = createToolTrackingHandlers(config, loggingClient)
+	const checkpoints = createCheckpointHandlers(config, loggingClient)
 
-	// Combined before handler: path rewrite runs first
+	// Combined before handler: the mount guard and path policy run first, then path rewrite,
+	// then tracking records the rewritten args
 	const toolExecuteBefore = async (
 		input: { tool: string; sessionID: string; callID: string },
 		output: { args: Record<string, unknown> },
 	) => {
 		log(loggingClient, "debug", `tool.execute.before called`, input)
+		try {
+			// Refuse calls that would change the real project after the sandbox was lost
+			mountGuardHandler(input)
+			// Refuse denied and read-only paths (throws to fail the tool call)
+			pathPolicyHandler(input, output)
+		} catch (err) {
+			// A refused call never runs, so the after hook would not record it
+			await toolTracking.blocked(input, output, err)
+			throw err
+		}
 		// Rewrite paths from project dir to mount dir (mutates output.args)
 		pathRewriteBeforeHandler(input, output)
+		// Snapshot the files mutating tools are about to change so they can be rolled back
+		await checkpoints.before(input, output)
+		// Remember args and start time for the tool call record
+		await toolTracking.before(input, output)
 	}
 
-	// Combined after handler: path rewrite to fix output paths
+	// Combined after handler: path rewrite to fix output paths, the path policy to filter
+	// search results, then record what the call changed
 	const toolExecuteAfter = async (
 		input: { tool: string; sessionID: string; callID: string },
 		output: { title: string; output: string; metadata: unknown },
@@ -55,12 +123,37 @@ export const AgentFSPlugin: Plugin = async (input) => {
 		log(loggingClient, "debug", `tool.execute.after called`, input)
 		// Rewrite paths from mount dir back to project dir (mutates output)
 		pathRewriteAfterHandler(input, output)
+		// Drop denied files from grep and glob results (mutates output)
+		pathPolicyAfterHandler(input, output)
+		// Remember which files the call changed so it can be undone on its own
+		await checkpoints.after(input)
+		// Save the completed tool call to the session database
+		await toolTracking.after(input, output)
+	}
+
+	// Without a mount, serve the file tools from the SDK so sessions stay isolated;
+	// always also covers sessions whose mount fails or is lost at runtime, since each call
+	// uses the mount or the SDK depending on the session's state
+	const useFallback =
+		config.sdkFallback === "always" || (config.sdkFallback === "auto" && !mountAvailable)
+	if (useFallback) {
+		log(loggingClient, "info", `Serving file tools from the AgentFS sandbox`, {
+			sdkFallback: config.sdkFallback,
+			mountAvailable,
+		})
 	}
 
 	const hooks: Hooks = {
 		// Event handler for session lifecycle
 		event: sessionHandler,
 
+		// Agent-callable tools for inspecting the sandbox
+		// plus SDK-backed replacements for the built-in file tools in fallback mode
+		tool: {
+			...createSandboxTools(config, loggingClient),
+			...(useFallback ? createFallbackTools(config, loggingClient) : {}),
+		},
+
 		// Tool hooks: path rewrite + tracking
 		"tool.execute.before": toolExecuteBefore,
 		"tool.execute.after": toolExecuteAfter,
@@ -0,0 +1,134 @@
+const CONTEXT_LINES = 3
+// Largest LCS table (one 32-bit cell per pair of differing lines, ~8 MB) before the
+// differing middle of the files is shown as a full replace
+const MAX_LCS_CELLS = 2_000_000
+
+type DiffOp = { type: " " | "-" | "+"; line: string }
+
+function splitLines(text: string): string[] {
+	if (!text) return []
+	const lines = text.split("\n")
+	if (lines[lines.length - 1] === "") lines.pop()
+	return lines
+}
+
+/**
+ * Compute line operations turning `a` into `b`. The common prefix and suffix are matched
+ * directly; only the lines between them go through a longest common subsequence table.
+ */
+function diffLines(a: string[], b: string[]): DiffOp[] {
+	let prefix = 0
+	while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++
+	let suffix = 0
+	while (
+		suffix < a.length - prefix &&
+		suffix < b.length - prefix &&
+		a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+	) {
+		suffix++
+	}
+
+	const same = (lines: string[]) => lines.map((line) => ({ type: " " as const, line }))
+	return [
+		...same(a.slice(0, prefix)),
+		...diffMiddle(a.slice(prefix, a.length - suffix), b.slice(prefix, b.length - suffix)),
+		...same(a.slice(a.length - suffix)),
+	]
+}
+
+function diffMiddle(a: string[], b: string[]): DiffOp[] {
+	if ((a.length + 1) * (b.length + 1) > MAX_LCS_CELLS) {
+		return [
+			...a.map((line) => ({ type: "-" as const, line })),
+			...b.map((line) => ({ type: "+" as const, line })),
+		]
+	}
+
+	// lcs[i * width + j] is the LCS length of a[i..] and b[j..]
+	const width = b.length + 1
+	const lcs = new Uint32Array((a.length + 1) * width)
+	for (let i = a.length - 1; i >= 0; i--) {
+		for (let j = b.length - 1; j >= 0; j--) {
+			lcs[i * width + j] =
+				a[i] === b[j]
+					? lcs[(i + 1) * width + j + 1]! + 1
+					: Math.max(lcs[(i + 1) * width + j]!, lcs[i * width + j + 1]!)
+		}
+	}
+
+	const ops: DiffOp[] = []
+	let i = 0
+	let j = 0
+	while (i < a.length && j < b.length) {
+		if (a[i] === b[j]) {
+			ops.push({ type: " ", line: a[i++]! })
+			j++
+		} else if (lcs[(i + 1) * width + j]! >= lcs[i * width + j + 1]!) {
+			ops.push({ type: "-", line: a[i++]! })
+		} else {
+			ops.push({ type: "+", line: b[j++]! })
+		}
+	}
+	while (i < a.length) ops.push({ type: "-", line: a[i++]! })
+	while (j < b.length) ops.push({ type: "+", line: b[j++]! })
+	return ops
+}
+
+/**
+ * Create a unified diff between two versions of a file.
+ * Pass undefined for a missing side (created or deleted files).
+ * Returns an empty string when the contents are equal.
+ */
+export function createUnifiedDiff(
+	path: string,
+	before: string | undefined,
+	after: string | undefined,
+): string {
+	if (before === after) return ""
+
+	const ops = diffLines(splitLines(before ?? ""), splitLines(after ?? ""))
+	const header = [
+		`--- ${before === undefined ? "/dev/null" : `a/${path}`}`,
+		`+++ ${after === undefined ? "/dev/null" : `b/${path}`}`,
+	]
+
+	// Group changed lines into hunks with surrounding context
+	const hunks: string[] = []
+	let index = 0
+	while (index < ops.length) {
+		if (ops[index]!.type === " ") {
+			index++
+			continue
+		}
+
+		const start = Math.max(0, index - CONTEXT_LINES)
+		let end = index
+		// Extend the hunk while changes are within 2 * CONTEXT_LINES of each other
+		while (end < ops.length) {
+			let next = end
+			while (next < ops.length && ops[next]!.type === " ") next++
+			if (next >= ops.length || next - end > CONTEXT_LINES * 2) break
+			end = next + 1
+		}
+		end = Math.min(ops.length, end + CONTEXT_LINES)
+
+		// Line numbers of the hunk start in both files
+		let oldLine = 1
+		let newLine = 1
+		for (const op of ops.slice(0, start)) {
+			if (op.type !== "+") oldLine++
+			if (op.type !== "-") newLine++
+		}
+		const hunk = ops.slice(start, end)
+		const oldCount = hunk.filter((op) => op.type !== "+").length
+		const newCount = hunk.filter((op) => op.type !== "-").length
+
+		hunks.push(
+			`@@ -${oldCount ? oldLine : oldLine - 1},${oldCount} +${newCount ? newLine : newLine - 1},${newCount} @@`,
+			...hunk.map((op) => `${op.type}${op.line}`),
+		)
+		index = end
+	}
+
+	return [...header, ...hunks].join("\n")
+}
@@ -0,0 +1,313 @@
+import { readFile } from "node:fs/promises"
+import { join, relative } from "node:path"
+import { type ToolDefinition, tool } from "@opencode-ai/plugin"
+import { Glob } from "bun"
+import { getSession, openDatabase } from "../agentfs/client"
+import {
+	listSandboxFiles,
+	readSandboxFile,
+	walkHost,
+	writeSandboxFile,
+} from "../agentfs/sandbox-fs"
+import { isIgnoredPath, listIgnoredPaths } from "../agentfs/worktree"
+import type { AgentFSConfig } from "../config/schema"
+import { isInside, resolveToolPath } from "../hooks/resolve-path"
+import { type LoggingClient, log } from "../log"
+
+const DEFAULT_READ_LIMIT = 2000
+const MAX_LINE_LENGTH = 2000
+const MAX_GLOB_RESULTS = 100
+const MAX_GREP_MATCHES = 100
+// Directories glob and grep never search, like OpenCode's own tools
+const SKIPPED_DIRS = new Set([".git", "node_modules"])
+
+/**
+ * The files a tool call operates on: the session's sandbox, through its mount while it is
+ * mounted and through the session database otherwise.
+ */
+interface FileView {
+	projectPath: string
+	read(path: string): Promise<Buffer>
+	write(path: string, content: Buffer): Promise<void>
+	list(): Promise<Map<string, { size: number; mtime: number }>>
+}
+
+/**
+ * Get the sandbox of the calling session, opening its database if it is not mounted
+ * (e.g. its mount failed or was lost). Throws rather than falling back to the real
+ * project, which would break the session's isolation.
+ */
+async function getView(sessionID: string): Promise<FileView> {
+	const context = getSession(sessionID)
+	if (!context) {
+		throw new Error(
+			`AgentFS session ${sessionID} is not initialized, so its sandbox is not available`,
+		)
+	}
+	if (!context.mount.mounted && !context.agent) {
+		await openDatabase(context.sessionId)
+	}
+
+	return {
+		projectPath: context.projectPath,
+		read: (path) => readSandboxFile(context, path),
+		write: (path, content) => writeSandboxFile(context, path, content),
+		list: () => listSandboxFiles(context),
+	}
+}
+
+/**
+ * A file a tool call names: a project-relative path in the sandbox, or an absolute
+ * host path outside the project, which has no sandboxed copy and is only read.
+ */
+interface Target {
+	path: string
+	outside: boolean
+}
+
+/**
+ * Resolve a tool path argument (absolute, relative to the project, ~/, file:// or already
+ * rewritten into the mount) to a path in the sandbox. Paths outside the project stay on
+ * the host, where the path policy hook already applied config.pathPolicy.outside.
+ */
+function resolvePath(sessionID: string, view: FileView, path: string): Target {
+	const mountPath = getSession(sessionID)?.mount.mountPath
+	const absolute = resolveToolPath(path, view.projectPath)
+
+	if (mountPath && isInside(absolute, mountPath)) {
+		return { path: relative(mountPath, absolute), outside: false }
+	}
+	if (isInside(absolute, view.projectPath)) {
+		return { path: relative(view.projectPath, absolute), outside: false }
+	}
+	return { path: absolute, outside: true }
+}
+
+function displayPath(view: FileView, target: Target): string {
+	return target.outside ? target.path : join(view.projectPath, target.path)
+}
+
+function readTarget(view: FileView, target: Target): Promise<Buffer> {
+	return target.outside ? readFile(target.path) : view.read(target.path)
+}
+
+/**
+ * Write a file in the sandbox. Writes outside the project are refused: the tools must
+ * never change host files.
+ */
+async function writeTarget(view: FileView, target: Target, content: Buffer): Promise<void> {
+	if (target.outside) {
+		throw new Error(`Cannot write outside the project and its sandbox: ${target.path}`)
+	}
+	return view.write(target.path, content)
+}
+
+/**
+ * List the files under a directory, newest first, with their paths relative to it.
+ * Skips .git, node_modules and, in the project, the files .gitignore ignores.
+ */
+async function listUnder(view: FileView, dir: Target) {
+	let files: { target: Target; relative: string; size: number; mtime: number }[]
+	if (dir.outside) {
+		files = [...(await walkHost(dir.path, "", new Set()))].map(([path, stats]) => ({
+			target: { path: join(dir.path, path), outside: true },
+			relative: path,
+			size: stats.size,
+			mtime: stats.mtimeMs,
+		}))
+	} else {
+		// Not every project is a git repository
+		const ignored = await listIgnoredPaths(view.projectPath).catch(() => [])
+		files = [...(await view.list())]
+			.filter(([path]) => !dir.path || path.startsWith(`${dir.path}/`))
+			.filter(([path]) => !isIgnoredPath(path, ignored))
+			.map(([path, entry]) => ({
+				target: { path, outside: false },
+				relative: dir.path ? path.slice(dir.path.length + 1) : path,
+				...entry,
+			}))
+	}
+	return files
+		.filter((file) => !file.relative.split("/").some((part) => SKIPPED_DIRS.has(part)))
+		.sort((a, b) => b.mtime - a.mtime)
+}
+
+/**
+ * Create replacements for OpenCode's read, write, edit, glob and grep tools that
+ * operate on the session's sandbox. Each call goes through the mount while the session
+ * is mounted and through the AgentFS SDK otherwise, so sessions stay isolated when no
+ * mount is available or a mount fails at runtime: without a mount the tools read through
+ * the overlay delta to the base project and write only to the session database.
+ */
+export function createFallbackTools(
+	_config: AgentFSConfig,
+	client?: LoggingClient,
+): Record<string, ToolDefinition> {
+	return {
+		read: tool({
+			description:
+				"Read a file from the session's sandbox. Output lines are numbered starting at 1. " +
+				"Use offset and limit to read a part of a large file.",
+			args: {
+				filePath: tool.schema.string().describe("Path of the file to read"),
+				offset: tool.schema
+					.number()
+					.optional()
+					.describe("Line number to start reading from (0-based)"),
+				limit: tool.schema
+					.number()
+					.optional()
+					.describe("Number of lines to read (defaults to 2000)"),
+			},
+			async execute(args, context) {
+				const view = await getView(context.sessionID)
+				const target = resolvePath(context.sessionID, view, args.filePath)
+				log(client, "debug", `Fallback read`, { ...target })
+
+				const lines = (await readTarget(view, target)).toString("utf8").split("\n")
+				const offset = args.offset ?? 0
+				const limit = args.limit ?? DEFAULT_READ_LIMIT
+				const numbered = lines.slice(offset, offset + limit).map((line, index) => {
+					const text = line.length > MAX_LINE_LENGTH ? `${line.slice(0, MAX_LINE_LENGTH)}...` : line
+					return `${(offset + index + 1).toString().padStart(5, "0")}| ${text}`
+				})
+
+				let output = `<file>\n${numbered.join("\n")}`
+				if (lines.length > offset + limit) {
+					output += `\n\n(File has more lines. Use 'offset' parameter to read beyond line ${offset + limit})`
+				}
+				return `${output}\n</file>`
+			},
+		}),
+
+		write: tool({
+			description: "Write a file in the session's sandbox, replacing it if it exists.",
+			args: {
+				filePath: tool.schema.string().describe("Path of the file to write"),
+				content: tool.schema.string().describe("Content to write to the file"),
+			},
+			async execute(args, context) {
+				const view = await getView(context.sessionID)
+				const target = resolvePath(context.sessionID, view, args.filePath)
+				log(client, "debug", `Fallback write`, { ...target })
+
+				await writeTarget(view, target, Buffer.from(args.content))
+				return `Wrote ${displayPath(view, target)}`
+			},
+		}),
+
+		edit: tool({
+			description:
+				"Replace oldString with newString in a file in the session's sandbox. " +
+				"oldString must match exactly once unless replaceAll is set.",
+			args: {
+				filePath: tool.schema.string().describe("Path of the file to modify"),
+				oldString: tool.schema.string().describe("Text to replace"),
+				newString: tool.schema.string().describe("Text to replace it with"),
+				replaceAll: tool.schema.boolean().optional().describe("Replace every occurrence"),
+			},
+			async execute(args, context) {
+				const view = await getView(context.sessionID)
+				const target = resolvePath(context.sessionID, view, args.filePath)
+				log(client, "debug", `Fallback edit`, { ...target })
+
+				if (args.oldString === args.newString) {
+					throw new Error("oldString and newString must be different")
+				}
+
+				const content = (await readTarget(view, target)).toString("utf8")
+				const occurrences = content.split(args.oldString).length - 1
+				if (occurrences === 0) {
+					throw new Error("oldString not found in content")
+				}
+				if (occurrences > 1 && !args.replaceAll) {
+					throw new Error(
+						"oldString found multiple times and requires more context to uniquely identify it",
+					)
+				}
+
+				const updated = args.replaceAll
+					? content.split(args.oldString).join(args.newString)
+					: content.replace(args.oldString, () => args.newString)
+				await writeTarget(view, target, Buffer.from(updated))
+				return `Edited ${displayPath(view, target)}`
+			},
+		}),
+
+		glob: tool({
+			description: "Find files in the session's sandbox matching a glob pattern, newest first.",
+			args: {
+				pattern: tool.schema.string().describe("Glob pattern to match files against"),
+				path: tool.schema
+					.string()
+					.optional()
+					.describe("Directory to search in (defaults to the project)"),
+			},
+			async execute(args, context) {
+				const view = await getView(context.sessionID)
+				const dir = resolvePath(context.sessionID, view, args.path ?? view.projectPath)
+				const glob = new Glob(args.pattern)
+
+				const matches = (await listUnder(view, dir)).filter((file) => glob.match(file.relative))
+				if (matches.length === 0) {
+					return "No files found"
+				}
+
+				const lines = matches
+					.slice(0, MAX_GLOB_RESULTS)
+					.map((file) => displayPath(view, file.target))
+				if (matches.length > MAX_GLOB_RESULTS) {
+					lines.push("", "(Results are truncated. Consider using a more specific path or pattern.)")
+				}
+				return lines.join("\n")
+			},
+		}),
+
+		grep: tool({
+			description:
+				"Search file contents in the session's sandbox with a regular expression, newest files first.",
+			args: {
+				pattern: tool.schema.string().describe("Regular expression to search for"),
+				path: tool.schema
+					.string()
+					.optional()
+					.describe("Directory to search in (defaults to the project)"),
+				include: tool.schema.string().optional().describe('File pattern to include (e.g. "*.ts")'),
+			},
+			async execute(args, context) {
+				const view = await getView(context.sessionID)
+				const dir = resolvePath(context.sessionID, view, args.path ?? view.projectPath)
+				const regex = new RegExp(args.pattern)
+				const include = args.include ? new Glob(args.include) : undefined
+
+				const results: string[] = []
+				let matchCount = 0
+				for (const file of await listUnder(view, dir)) {
+					if (matchCount >= MAX_GREP_MATCHES) break
+					const name = file.relative.slice(file.relative.lastIndexOf("/") + 1)
+					if (include && !include.match(file.relative) && !include.match(name)) continue
+
+					const content = await readTarget(view, file.target).catch(() => undefined)
+					if (!content || content.subarray(0, 8000).includes(0)) continue
+
+					const lines = content.toString("utf8").split("\n")
+					const fileMatches: string[] = []
+					lines.forEach((line, index) => {
+						if (matchCount < MAX_GREP_MATCHES && regex.test(line)) {
+							fileMatches.push(`  Line ${index + 1}: ${line.slice(0, MAX_LINE_LENGTH)}`)
+							matchCount++
+						}
+					})
+					if (fileMatches.length > 0) {
+						results.push(`${displayPath(view, file.target)}:`, ...fileMatches, "")
+					}
+				}
+
+				if (matchCount === 0) {
+					return "No files found"
+				}
+				return [`Found ${matchCount} matches`, "", ...results].join("\n").trimEnd()
+			},
+		}),
+	}
+}
@@ -0,0 +1,287 @@
+import { readFile } from "node:fs/promises"
+import { join } from "node:path"
+import { type ToolDefinition, tool } from "@opencode-ai/plugin"
+import { applySandboxChanges } from "../agentfs/apply"
+import { listSandboxChanges } from "../agentfs/changes"
+import { listCheckpoints, rollbackToCheckpoint, undoToolCall } from "../agentfs/checkpoints"
+import { getSession } from "../agentfs/client"
+import { getMountStatus } from "../agentfs/mount"
+import { resetSandbox } from "../agentfs/reset"
+import { collectGarbage } from "../agentfs/retention"
+import { readSandboxFile } from "../agentfs/sandbox-fs"
+import type { SandboxChange, SessionContext } from "../agentfs/types"
+import type { AgentFSConfig } from "../config/schema"
+import { type LoggingClient, log } from "../log"
+import { createUnifiedDiff } from "./diff"
+
+export { createFallbackTools } from "./fallback"
+
+function requireSession(sessionId: string): SessionContext {
+	const context = getSession(sessionId)
+	if (!context) {
+		throw new Error(`No AgentFS sandbox for session ${sessionId}`)
+	}
+	return context
+}
+
+function isBinary(content: Buffer): boolean {
+	return content.subarray(0, 8000).includes(0)
+}
+
+/**
+ * Filter changes to a project-relative path or directory prefix.
+ */
+function filterChanges(changes: SandboxChange[], path: string | undefined): SandboxChange[] {
+	if (!path) return changes
+	const prefix = path.replace(/^\.?\/+/, "").replace(/\/+$/, "")
+	if (!prefix) return changes
+	return changes.filter((change) => change.path === prefix || change.path.startsWith(`${prefix}/`))
+}
+
+async function diffChange(context: SessionContext, change: SandboxChange): Promise<string> {
+	const base =
+		change.type === "created" ? undefined : await readFile(join(context.projectPath, change.path))
+	const sandbox =
+		change.type === "deleted" ? undefined : await readSandboxFile(context, change.path)
+
+	if ((base && isBinary(base)) || (sandbox && isBinary(sandbox))) {
+		return `Binary files a/${change.path} and b/${change.path} differ`
+	}
+
+	return createUnifiedDiff(change.path, base?.toString("utf8"), sandbox?.toString("utf8"))
+}
+
+/**
+ * Create agent-callable tools for inspecting the session's sandbox.
+ */
+export function createSandboxTools(
+	config: AgentFSConfig,
+	client?: LoggingClient,
+): Record<string, ToolDefinition> {
+	return {
+		agentfs_status: tool({
+			description:
+				"Show the state of this session's AgentFS sandbox: whether the overlay is mounted, " +
+				"the project and mount directories, and any mount error.",
+			args: {},
+			async execute(_args, context) {
+				const session = requireSession(context.sessionID)
+				const status = await getMountStatus(session.mount)
+				return JSON.stringify(
+					{
+						...status,
+						dbPath: session.mount.dbPath,
+						databaseOpen: !!session.agent,
+						error: session.mount.error,
+					},
+					null,
+					2,
+				)
+			},
+		}),
+
+		agentfs_changes: tool({
+			description:
+				"List the files created, modified or deleted in this session's sandbox compared to the " +
+				"original project. Paths are relative to the project root.",
+			args: {
+				path: tool.schema
+					.string()
+					.optional()
+					.describe("Only list changes under this project-relative file or directory"),
+			},
+			async execute(args, context) {
+				const session = requireSession(context.sessionID)
+				const changes = filterChanges(await listSandboxChanges(session), args.path)
+				log(client, "debug", `agentfs_changes found ${changes.length} changes`)
+
+				if (changes.length === 0) {
+					return "No changes in the sandbox."
+				}
+				return changes.map((change) => `${change.type}\t${change.path}`).join("\n")
+			},
+		}),
+
+		agentfs_diff: tool({
+			description:
+				"Show a unified diff of this session's sandbox against the original project. " +
+				"Use it to review your changes before asking the user to apply them.",
+			args: {
+				path: tool.schema
+					.string()
+					.optional()
+					.describe("Only diff changes under this project-relative file or directory"),
+			},
+			async execute(args, context) {
+				const session = requireSession(context.sessionID)
+				const changes = filterChanges(await listSandboxChanges(session), args.path)
+
+				if (changes.length === 0) {
+					return "No changes in the sandbox."
+				}
+
+				const diffs: string[] = []
+				for (const change of changes) {
+					diffs.push(await diffChange(session, change))
+				}
+				return diffs.join("\n")
+			},
+		}),
+
+		agentfs_apply: tool({
+			description:
+				"Copy this session's sandbox changes into the real project: created and modified files " +
+				"are written, deleted files are removed. Runs as a dry run listing what would change " +
+				"unless dryRun is false; only apply for real when the user asks for it.",
+			args: {
+				dryRun: tool.schema
+					.boolean()
+					.optional()
+					.describe("List the changes without touching the project (default true)"),
+				paths: tool.schema
+					.array(tool.schema.string())
+					.optional()
+					.describe("Only apply changes to these project-relative files"),
+			},
+			async execute(args, context) {
+				const session = requireSession(context.sessionID)
+				const result = await applySandboxChanges(
+					session,
+					{ dryRun: args.dryRun ?? true, paths: args.paths },
+					client,
+				)
+
+				if (result.applied.length === 0 && result.failed.length === 0) {
+					return "No changes in the sandbox."
+				}
+				const lines = [
+					result.dryRun
+						? `Would apply ${result.applied.length} changes (dry run, the project is unchanged):`
+						: `Applied ${result.applied.length} changes to ${session.projectPath}:`,
+					...result.applied.map((change) => `${change.type}\t${change.path}`),
+				]
+				if (result.failed.length > 0) {
+					lines.push(
+						`Failed to apply ${result.failed.length} changes:`,
+						...result.failed.map(({ change, error }) => `${change.type}\t${change.path}: ${error}`),
+					)
+				}
+				return lines.join("\n")
+			},
+		}),
+
+		agentfs_reset: tool({
+			description:
+				"Discard everything this session wrote to its sandbox and start again from the " +
+				"untouched project. The session itself is kept. Only reset when the user asks for it.",
+			args: {},
+			async execute(_args, context) {
+				const session = requireSession(context.sessionID)
+				const discarded = (await listSandboxChanges(session)).length
+				await resetSandbox(session.sessionId, client)
+				return `Sandbox reset to the project, ${discarded} changes discarded.`
+			},
+		}),
+
+		agentfs_checkpoints: tool({
+			description:
+				"List the sandbox checkpoints taken before each file-modifying tool call in this session, " +
+				"oldest first. Each checkpoint is identified by the callID of the tool call it precedes " +
+				"and saves the files that call named.",
+			args: {},
+			async execute(_args, context) {
+				const session = requireSession(context.sessionID)
+				const checkpoints = await listCheckpoints(session)
+
+				if (checkpoints.length === 0) {
+					return "No checkpoints in this session."
+				}
+				return checkpoints
+					.map(
+						(checkpoint) =>
+							`${checkpoint.callID}\t${checkpoint.tool}\t${new Date(checkpoint.createdAt).toISOString()}` +
+							`\t${checkpoint.paths.join(", ") || "no files named"}`,
+					)
+					.join("\n")
+			},
+		}),
+
+		agentfs_rollback: tool({
+			description:
+				"Restore this session's sandbox to the state it had before the given tool call, " +
+				"undoing that call and every later call. Only the files each call named are restored; " +
+				"for bash calls that is the write targets found in the command, so files written by " +
+				"the programs it ran (package installs, code generators) are kept. " +
+				"Such calls are listed in the result.",
+			args: {
+				callID: tool.schema.string().describe("callID of a checkpoint from agentfs_checkpoints"),
+			},
+			async execute(args, context) {
+				const session = requireSession(context.sessionID)
+				const result = await rollbackToCheckpoint(session, args.callID, client)
+
+				const lines =
+					result.restored.length === 0
+						? [`Sandbox already matches the checkpoint before ${args.callID}.`]
+						: [`Restored ${result.restored.length} files:`, ...result.restored]
+				if (result.uncovered.length > 0) {
+					lines.push(
+						"Files these calls changed without naming them were not restored:",
+						...result.uncovered.map((checkpoint) => `${checkpoint.callID}\t${checkpoint.tool}`),
+					)
+				}
+				return lines.join("\n")
+			},
+		}),
+
+		agentfs_undo: tool({
+			description:
+				"Revert only the files changed by a single tool call, keeping changes made by later calls. " +
+				"Fails with a list of conflicting files if any of them changed again after the call.",
+			args: {
+				callID: tool.schema.string().describe("callID of a checkpoint from agentfs_checkpoints"),
+			},
+			async execute(args, context) {
+				const session = requireSession(context.sessionID)
+				const result = await undoToolCall(session, args.callID, client)
+
+				if (result.conflicts.length > 0) {
+					return (
+						`Cannot undo ${args.callID}, nothing was changed. Conflicting files:\n` +
+						result.conflicts.map((conflict) => `${conflict.path}: ${conflict.reason}`).join("\n")
+					)
+				}
+				if (result.reverted.length === 0) {
+					return `Call ${args.callID} did not change any files.`
+				}
+				return `Reverted ${result.reverted.length} files:\n${result.reverted.join("\n")}`
+			},
+		}),
+
+		agentfs_gc: tool({
+			description:
+				"Delete the databases and mount directories of old AgentFS sessions of this project " +
+				"beyond the configured retention limits, and report the space reclaimed. " +
+				"Open sessions and, by default, sessions with unapplied changes are kept.",
+			args: {},
+			async execute(_args, context) {
+				const session = requireSession(context.sessionID)
+				const result = await collectGarbage(config, session.projectPath, client)
+
+				const lines = [
+					`Removed ${result.removedSessions.length} sessions, reclaimed ${result.reclaimedBytes} bytes.`,
+				]
+				if (result.removedSessions.length > 0) {
+					lines.push(`Sessions: ${result.removedSessions.join(", ")}`)
+				}
+				if (result.removedMountDirs.length > 0) {
+					lines.push(`Mount directories: ${result.removedMountDirs.join(", ")}`)
+				}
+				if (result.keptUnapplied.length > 0) {
+					lines.push(`Kept with unapplied changes: ${result.keptUnapplied.join(", ")}`)
+				}
+				return lines.join("\n")
+			},
+		}),
+	}
+}
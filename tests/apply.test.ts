@@ -0,0 +1,112 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test"
+import { chmod, cp, mkdir, readdir, readFile, rm, stat, writeFile } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { applySandboxChanges } from "../src/agentfs/apply"
+import { closeSession, createSession, createSessionContext } from "../src/agentfs/client"
+import type { SessionContext } from "../src/agentfs/types"
+import { parseConfig } from "../src/config/schema"
+
+describe("applySandboxChanges", () => {
+	let testDir: string
+	let projectDir: string
+	let context: SessionContext
+	const sessionId = "test-apply-session"
+
+	beforeEach(async () => {
+		testDir = join(tmpdir(), `agentfs-apply-test-${Date.now()}`)
+		projectDir = join(testDir, "project")
+		await mkdir(join(projectDir, "src"), { recursive: true })
+		await writeFile(join(projectDir, "README.md"), "readme")
+		await writeFile(join(projectDir, "src", "a.ts"), "export const a = 1")
+
+		const config = parseConfig({
+			dbPath: join(testDir, ".agentfs/"),
+			mountPath: join(testDir, "mounts/"),
+			autoMount: false,
+		})
+		context = await createSessionContext(config, sessionId, projectDir)
+
+		// Simulate a mounted overlay with a plain copy of the project
+		await cp(projectDir, context.mount.mountPath, { recursive: true, preserveTimestamps: true })
+		context.mount.mounted = true
+
+		await writeFile(join(context.mount.mountPath, "src", "a.ts"), "export const a = 2")
+		await mkdir(join(context.mount.mountPath, "lib"))
+		await writeFile(join(context.mount.mountPath, "lib", "b.ts"), "export const b = 1")
+		await rm(join(context.mount.mountPath, "README.md"))
+	})
+
+	afterEach(async () => {
+		await closeSession(sessionId)
+		await rm(testDir, { recursive: true, force: true })
+	})
+
+	test("writes created and modified files and removes deleted ones", async () => {
+		const result = await applySandboxChanges(context)
+
+		expect(result.dryRun).toBe(false)
+		expect(result.failed).toEqual([])
+		expect(result.applied.map((change) => change.path)).toEqual([
+			"README.md",
+			"lib/b.ts",
+			"src/a.ts",
+		])
+		expect(await readFile(join(projectDir, "src", "a.ts"), "utf8")).toBe("export const a = 2")
+		expect(await readFile(join(projectDir, "lib", "b.ts"), "utf8")).toBe("export const b = 1")
+		expect(await Bun.file(join(projectDir, "README.md")).exists()).toBe(false)
+		// No temporary files left behind
+		expect(await readdir(join(projectDir, "src"))).toEqual(["a.ts"])
+	})
+
+	test("dry run reports changes without touching the project", async () => {
+		const result = await applySandboxChanges(context, { dryRun: true })
+
+		expect(result.dryRun).toBe(true)
+		expect(result.applied).toHaveLength(3)
+		expect(await readFile(join(projectDir, "src", "a.ts"), "utf8")).toBe("export const a = 1")
+		expect(await Bun.file(join(projectDir, "README.md")).exists()).toBe(true)
+	})
+
+	test("applies only the selected paths", async () => {
+		const result = await applySandboxChanges(context, { paths: ["./src/a.ts"] })
+
+		expect(result.applied.map((change) => change.path)).toEqual(["src/a.ts"])
+		expect(await Bun.file(join(projectDir, "lib", "b.ts")).exists()).toBe(false)
+	})
+})
+
+describe("applySandboxChanges without a mount", () => {
+	let testDir: string
+	let projectDir: string
+	const sessionId = "test-apply-db-session"
+
+	beforeEach(async () => {
+		testDir = join(tmpdir(), `agentfs-apply-db-test-${Date.now()}`)
+		projectDir = join(testDir, "project")
+		await mkdir(projectDir, { recursive: true })
+		await writeFile(join(projectDir, "run.sh"), "#!/bin/sh\necho 1\n")
+		await chmod(join(projectDir, "run.sh"), 0o755)
+	})
+
+	afterEach(async () => {
+		await closeSession(sessionId)
+		await rm(testDir, { recursive: true, force: true })
+	})
+
+	test("keeps the mode of modified files", async () => {
+		const config = parseConfig({
+			dbPath: join(testDir, ".agentfs/"),
+			mountPath: join(testDir, "mounts/"),
+			autoMount: false,
+		})
+		const context = await createSession(config, sessionId, projectDir)
+		await context.agent!.fs.writeFile("/run.sh", "#!/bin/sh\necho 2\n")
+
+		const result = await applySandboxChanges(context)
+
+		expect(result.failed).toEqual([])
+		expect(await readFile(join(projectDir, "run.sh"), "utf8")).toBe("#!/bin/sh\necho 2\n")
+		expect((await stat(join(projectDir, "run.sh"))).mode & 0o777).toBe(0o755)
+	})
+})
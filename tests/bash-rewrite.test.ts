@@ -0,0 +1,164 @@
+import { describe, expect, test } from "bun:test"
+import {
+	extractShellPaths,
+	rewriteBashArgs,
+	rewriteShellCommand,
+	rewriteShellWord,
+	tokenizeShell,
+} from "../src/hooks/bash-rewrite"
+
+const home = "/home/user"
+const project = "/home/user/project"
+const mount = "/home/user/.agentfs/mounts/ses_1"
+
+describe("tokenizeShell", () => {
+	test("splits on whitespace and operators", () => {
+		const words = tokenizeShell("cd src && ls -la|wc -l; echo done>out.txt")
+		expect(words.map((word) => word.text)).toEqual([
+			"cd",
+			"src",
+			"ls",
+			"-la",
+			"wc",
+			"-l",
+			"echo",
+			"done",
+			"out.txt",
+		])
+	})
+
+	test("keeps quoted strings and escapes inside one word", () => {
+		const words = tokenizeShell(`echo "a b" 'c d' e\\ f x"y z"`)
+		expect(words.map((word) => word.text)).toEqual(["echo", '"a b"', "'c d'", "e\\ f", 'x"y z"'])
+	})
+
+	test("tokenizes inside subshells and command substitutions", () => {
+		const words = tokenizeShell("(cd /a && ls) $(cat /b) `cat /c`")
+		expect(words.map((word) => word.text)).toEqual(["cd", "/a", "ls", "cat", "/b", "cat", "/c"])
+	})
+
+	test("skips comments and heredoc bodies", () => {
+		const words = tokenizeShell("cat <<'EOF' > /out # note\n/in/body\nEOF\nls /after")
+		expect(words.map((word) => word.text)).toEqual(["cat", "/out", "ls", "/after"])
+	})
+
+	test("records source offsets", () => {
+		const [, word] = tokenizeShell("cat  /a/b")
+		expect(word).toEqual({ start: 5, end: 9, text: "/a/b" })
+	})
+})
+
+describe("rewriteShellWord", () => {
+	test("rewrites absolute project paths", () => {
+		expect(rewriteShellWord(`${project}/src/a.ts`, project, mount, home)).toBe(`${mount}/src/a.ts`)
+		expect(rewriteShellWord(project, project, mount, home)).toBe(mount)
+	})
+
+	test("keeps quoting around the path", () => {
+		expect(rewriteShellWord(`"${project}/a b.ts"`, project, mount, home)).toBe(`"${mount}/a b.ts"`)
+		expect(rewriteShellWord(`'${project}/$x'`, project, mount, home)).toBe(`'${mount}/$x'`)
+	})
+
+	test("expands ~ and $HOME", () => {
+		expect(rewriteShellWord("~/project/a", project, mount, home)).toBe(`${mount}/a`)
+		expect(rewriteShellWord('"$HOME/project/a"', project, mount, home)).toBe(`"${mount}/a"`)
+		expect(rewriteShellWord(`\${HOME}/project`, project, mount, home)).toBe(mount)
+		expect(rewriteShellWord("'~/project/a'", project, mount, home)).toBe("'~/project/a'")
+	})
+
+	test("rewrites assignment and option values", () => {
+		expect(rewriteShellWord(`OUT=${project}/dist`, project, mount, home)).toBe(`OUT=${mount}/dist`)
+		expect(rewriteShellWord(`--config=${project}/a.json`, project, mount, home)).toBe(
+			`--config=${mount}/a.json`,
+		)
+	})
+
+	test("leaves other words alone", () => {
+		expect(rewriteShellWord(`${project}2/a`, project, mount, home)).toBe(`${project}2/a`)
+		expect(rewriteShellWord(`'see ${project}/a'`, project, mount, home)).toBe(`'see ${project}/a'`)
+		expect(rewriteShellWord("src/a.ts", project, mount, home)).toBe("src/a.ts")
+	})
+
+	test("quotes mount paths that need it in unquoted words", () => {
+		expect(rewriteShellWord(`${project}/a`, project, "/mnt/my mount", home)).toBe(
+			"'/mnt/my mount'/a",
+		)
+	})
+})
+
+describe("rewriteShellCommand", () => {
+	test("rewrites path arguments throughout the command", () => {
+		const command = `cd ${project}/src && cat $(ls ${project}/lib/*.ts) > ~/project/out.txt`
+		expect(rewriteShellCommand(command, project, mount, home)).toBe(
+			`cd ${mount}/src && cat $(ls ${mount}/lib/*.ts) > ${mount}/out.txt`,
+		)
+	})
+
+	test("does not touch heredoc bodies or string literals", () => {
+		const command = `cat > ${project}/a.md <<EOF\nSee ${project}/b.md\nEOF\necho "docs live in ${project}"`
+		expect(rewriteShellCommand(command, project, mount, home)).toBe(
+			`cat > ${mount}/a.md <<EOF\nSee ${project}/b.md\nEOF\necho "docs live in ${project}"`,
+		)
+	})
+})
+
+describe("rewriteBashArgs", () => {
+	test("runs the command from the mount", () => {
+		const args: Record<string, unknown> = { command: "ls src" }
+		rewriteBashArgs(args, project, mount)
+		expect(args.command).toBe(`cd ${mount} || exit 1\nls src`)
+	})
+
+	test("moves workdir into the mount", () => {
+		const args: Record<string, unknown> = { command: "ls", workdir: "src" }
+		rewriteBashArgs(args, project, mount)
+		expect(args.workdir).toBe(`${mount}/src`)
+		expect(args.command).toBe(`cd ${mount}/src || exit 1\nls`)
+	})
+
+	test("leaves working directories outside the project alone", () => {
+		const args: Record<string, unknown> = { command: `cp a ${project}/a`, cwd: "/tmp" }
+		rewriteBashArgs(args, project, mount)
+		expect(args.cwd).toBe("/tmp")
+		expect(args.command).toBe(`cp a ${mount}/a`)
+	})
+})
+
+describe("extractShellPaths", () => {
+	test("marks redirection targets and mutating command arguments as writes", () => {
+		expect(extractShellPaths("cat a.txt > out.txt && mv b c; sed -i s/x/y/ d", home)).toEqual([
+			{ path: "a.txt", write: false },
+			{ path: "out.txt", write: true },
+			{ path: "b", write: true },
+			{ path: "c", write: true },
+			{ path: "s/x/y/", write: true },
+			{ path: "d", write: true },
+		])
+	})
+
+	test("expands home and skips flags and variables", () => {
+		expect(extractShellPaths('ls -la ~/notes "$HOME/a" $DIR/b', home)).toEqual([
+			{ path: "/home/user/notes", write: false },
+			{ path: "/home/user/a", write: false },
+		])
+	})
+
+	test("also lists relative paths against the directory a cd changed to", () => {
+		expect(extractShellPaths("cd secrets && cat key; cd /srv && rm -r old", home)).toEqual([
+			{ path: "secrets", write: false },
+			{ path: "key", write: false },
+			{ path: "secrets/key", write: false },
+			{ path: "/srv", write: false },
+			{ path: "old", write: true },
+			{ path: "/srv/old", write: true },
+		])
+	})
+
+	test("marks relative paths after a cd to an unknown directory as unresolved", () => {
+		expect(extractShellPaths("cd $DIR && cat key /etc/hosts", home)).toEqual([
+			{ path: "key", write: false },
+			{ path: "key", write: false, unresolved: true },
+			{ path: "/etc/hosts", write: false },
+		])
+	})
+})
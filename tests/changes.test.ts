@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test"
+import { cp, mkdir, rm, writeFile } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { spawnSync } from "bun"
+import { listSandboxChanges } from "../src/agentfs/changes"
+import { closeSession, createSession, createSessionContext } from "../src/agentfs/client"
+import { type AgentFSConfig, parseConfig } from "../src/config/schema"
+
+describe("listSandboxChanges", () => {
+	let testDir: string
+	let projectDir: string
+	let config: AgentFSConfig
+	const sessionId = "test-changes-session"
+
+	beforeEach(async () => {
+		testDir = join(tmpdir(), `agentfs-changes-test-${Date.now()}`)
+		projectDir = join(testDir, "project")
+		await mkdir(join(projectDir, "src"), { recursive: true })
+		await writeFile(join(projectDir, "README.md"), "readme")
+		await writeFile(join(projectDir, "src", "a.ts"), "export const a = 1")
+
+		config = parseConfig({
+			dbPath: join(testDir, ".agentfs/"),
+			mountPath: join(testDir, "mounts/"),
+			autoMount: false,
+		})
+	})
+
+	afterEach(async () => {
+		await closeSession(sessionId)
+		await rm(testDir, { recursive: true, force: true })
+	})
+
+	test("compares the mounted overlay with the project", async () => {
+		const context = await createSessionContext(config, sessionId, projectDir)
+		await cp(projectDir, context.mount.mountPath, { recursive: true, preserveTimestamps: true })
+		context.mount.mounted = true
+
+		await writeFile(join(context.mount.mountPath, "src", "a.ts"), "export const a = 2")
+		await writeFile(join(context.mount.mountPath, "src", "b.ts"), "export const b = 1")
+		await rm(join(context.mount.mountPath, "README.md"))
+
+		const changes = await listSandboxChanges(context)
+
+		expect(changes.map(({ path, type }) => ({ path, type }))).toEqual([
+			{ path: "README.md", type: "deleted" },
+			{ path: "src/a.ts", type: "modified" },
+			{ path: "src/b.ts", type: "created" },
+		])
+		expect(changes[2]?.size).toBe("export const b = 1".length)
+	})
+
+	test("reports changes under .git unless the sandbox is a git worktree", async () => {
+		spawnSync(["git", "init", "-q"], { cwd: projectDir })
+		const context = await createSessionContext(config, sessionId, projectDir)
+		await cp(projectDir, context.mount.mountPath, { recursive: true, preserveTimestamps: true })
+		context.mount.mounted = true
+		await writeFile(join(context.mount.mountPath, ".git", "HEAD"), "ref: refs/heads/feature")
+
+		expect((await listSandboxChanges(context)).map(({ path }) => path)).toEqual([".git/HEAD"])
+
+		context.mount.backend = "git-worktree"
+		expect(await listSandboxChanges(context)).toEqual([])
+	})
+
+	test("reads the overlay delta from the database when not mounted", async () => {
+		const context = await createSession(config, sessionId, projectDir)
+		await context.agent!.fs.writeFile("/src/a.ts", "export const a = 2")
+		await context.agent!.fs.writeFile("/README.md", "readme")
+		await context.agent!.fs.writeFile("/new.txt", "new")
+
+		const changes = await listSandboxChanges(context)
+
+		expect(changes.map(({ path, type }) => ({ path, type }))).toEqual([
+			{ path: "new.txt", type: "created" },
+			{ path: "src/a.ts", type: "modified" },
+		])
+	})
+
+	test("throws when neither the mount nor the database is available", async () => {
+		const context = await createSessionContext(config, sessionId, projectDir)
+
+		await expect(listSandboxChanges(context)).rejects.toThrow("no mounted overlay or open database")
+	})
+})
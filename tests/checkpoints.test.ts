@@ -0,0 +1,254 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test"
+import { cp, mkdir, readFile, rm, writeFile } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { listSandboxChanges } from "../src/agentfs/changes"
+import {
+	createCheckpoint,
+	forgetCheckpoints,
+	listCheckpoints,
+	recordCheckpointChanges,
+	rollbackToCheckpoint,
+	undoToolCall,
+} from "../src/agentfs/checkpoints"
+import { closeSession, createSession, createSessionContext } from "../src/agentfs/client"
+import { type AgentFSConfig, parseConfig } from "../src/config/schema"
+import { getCheckpointPaths } from "../src/hooks/checkpoint"
+
+describe("checkpoints", () => {
+	let testDir: string
+	let projectDir: string
+	let config: AgentFSConfig
+	const sessionId = "test-checkpoint-session"
+
+	beforeEach(async () => {
+		testDir = join(tmpdir(), `agentfs-checkpoint-test-${Date.now()}`)
+		projectDir = join(testDir, "project")
+		await mkdir(projectDir, { recursive: true })
+		await writeFile(join(projectDir, "a.ts"), "a1")
+		await writeFile(join(projectDir, "b.ts"), "b1")
+
+		config = parseConfig({
+			dbPath: join(testDir, ".agentfs/"),
+			mountPath: join(testDir, "mounts/"),
+			autoMount: false,
+		})
+	})
+
+	afterEach(async () => {
+		await closeSession(sessionId)
+		forgetCheckpoints(sessionId)
+		await rm(testDir, { recursive: true, force: true })
+	})
+
+	test("rolls a mounted sandbox back to an earlier checkpoint", async () => {
+		const context = await createSessionContext(config, sessionId, projectDir)
+		await cp(projectDir, context.mount.mountPath, { recursive: true, preserveTimestamps: true })
+		context.mount.mounted = true
+		const mounted = (path: string) => join(context.mount.mountPath, path)
+
+		await createCheckpoint(context, "call-1", "write", ["a.ts"], 50)
+		await writeFile(mounted("a.ts"), "a2")
+
+		await createCheckpoint(context, "call-2", "bash", ["a.ts", "c.ts", "b.ts"], 50)
+		await writeFile(mounted("a.ts"), "a3")
+		await writeFile(mounted("c.ts"), "c1")
+		await rm(mounted("b.ts"))
+
+		await createCheckpoint(context, "call-3", "edit", ["c.ts"], 50)
+		await writeFile(mounted("c.ts"), "c2")
+
+		const result = await rollbackToCheckpoint(context, "call-2")
+
+		expect(result.restored).toEqual(["a.ts", "b.ts", "c.ts"])
+		expect(await readFile(mounted("a.ts"), "utf8")).toBe("a2")
+		expect(await readFile(mounted("b.ts"), "utf8")).toBe("b1")
+		expect(await Bun.file(mounted("c.ts")).exists()).toBe(false)
+		expect((await listCheckpoints(context)).map((checkpoint) => checkpoint.callID)).toEqual([
+			"call-1",
+			"call-2",
+		])
+	})
+
+	test("rolls the database overlay back to an earlier checkpoint", async () => {
+		const context = await createSession(config, sessionId, projectDir)
+
+		await createCheckpoint(context, "call-1", "bash", ["a.ts", "c.ts"], 50)
+		await context.agent!.fs.writeFile("/a.ts", "a2")
+		await context.agent!.fs.writeFile("/c.ts", "c1")
+
+		await rollbackToCheckpoint(context, "call-1")
+
+		expect(await listSandboxChanges(context)).toEqual([])
+	})
+
+	test("saves only the files the call names", async () => {
+		const context = await createSession(config, sessionId, projectDir)
+		await context.agent!.fs.writeFile("/b.ts", "b2")
+		await mkdir(join(projectDir, "src"))
+		await writeFile(join(projectDir, "src", "x.ts"), "x1")
+
+		const checkpoint = await createCheckpoint(context, "call-1", "bash", ["src", "new.ts"], 50)
+
+		expect(checkpoint.paths).toEqual(["src", "new.ts"])
+		expect(Object.keys(checkpoint.files).sort()).toEqual(["new.ts", "src/x.ts"])
+		expect(checkpoint.files["new.ts"]).toBeNull()
+	})
+
+	test("removes files created below a checkpointed directory", async () => {
+		const context = await createSession(config, sessionId, projectDir)
+		await mkdir(join(projectDir, "src"))
+		await writeFile(join(projectDir, "src", "x.ts"), "x1")
+
+		await createCheckpoint(context, "call-1", "bash", ["src"], 50)
+		await context.agent!.fs.writeFile("/src/y.ts", "y1")
+		await context.agent!.fs.writeFile("/src/x.ts", "x2")
+
+		const result = await rollbackToCheckpoint(context, "call-1")
+
+		expect(result.restored).toEqual(["src/x.ts", "src/y.ts"])
+		expect(await listSandboxChanges(context)).toEqual([])
+	})
+
+	test("keeps at most maxCheckpoints", async () => {
+		const context = await createSession(config, sessionId, projectDir)
+
+		for (const callID of ["call-1", "call-2", "call-3"]) {
+			await createCheckpoint(context, callID, "write", ["a.ts"], 2)
+		}
+
+		expect((await listCheckpoints(context)).map((checkpoint) => checkpoint.callID)).toEqual([
+			"call-2",
+			"call-3",
+		])
+	})
+
+	test("keeps the blobs of checkpoints created in parallel", async () => {
+		const context = await createSession(config, sessionId, projectDir)
+		await context.agent!.fs.writeFile("/a.ts", "a2")
+		await context.agent!.fs.writeFile("/b.ts", "b2")
+
+		await Promise.all([
+			createCheckpoint(context, "call-1", "write", ["a.ts"], 50),
+			createCheckpoint(context, "call-2", "write", ["b.ts"], 50),
+		])
+		await context.agent!.fs.writeFile("/a.ts", "a3")
+		await context.agent!.fs.writeFile("/b.ts", "b3")
+
+		await rollbackToCheckpoint(context, "call-1")
+
+		expect(Buffer.from(await context.agent!.fs.readFile("/a.ts")).toString()).toBe("a2")
+		expect(Buffer.from(await context.agent!.fs.readFile("/b.ts")).toString()).toBe("b2")
+	})
+
+	test("reports rolled back calls whose changes it cannot restore", async () => {
+		const context = await createSession(config, sessionId, projectDir)
+
+		await createCheckpoint(context, "call-1", "write", ["a.ts"], 50)
+		await createCheckpoint(context, "call-2", "bash", ["b.ts"], 50)
+		await createCheckpoint(context, "call-3", "custom", [], 50)
+
+		const result = await rollbackToCheckpoint(context, "call-1")
+
+		expect(result.uncovered.map((checkpoint) => checkpoint.callID)).toEqual(["call-2", "call-3"])
+	})
+
+	test("throws for unknown checkpoints", async () => {
+		const context = await createSession(config, sessionId, projectDir)
+
+		await expect(rollbackToCheckpoint(context, "missing")).rejects.toThrow("Checkpoint not found")
+	})
+
+	describe("undoToolCall", () => {
+		test("reverts only the files changed by the call", async () => {
+			const context = await createSession(config, sessionId, projectDir)
+			const fs = context.agent!.fs
+
+			await createCheckpoint(context, "call-1", "bash", ["a.ts", "c.ts"], 50)
+			await fs.writeFile("/a.ts", "a2")
+			await fs.writeFile("/c.ts", "c1")
+			await recordCheckpointChanges(context, "call-1")
+
+			await createCheckpoint(context, "call-2", "write", ["b.ts"], 50)
+			await fs.writeFile("/b.ts", "b2")
+			await recordCheckpointChanges(context, "call-2")
+
+			const result = await undoToolCall(context, "call-1")
+
+			expect(result).toEqual({ callID: "call-1", reverted: ["a.ts", "c.ts"], conflicts: [] })
+			const changes = await listSandboxChanges(context)
+			expect(changes.map(({ path, type }) => ({ path, type }))).toEqual([
+				{ path: "b.ts", type: "modified" },
+			])
+		})
+
+		test("leaves changes made outside checkpointed calls alone", async () => {
+			const context = await createSession(config, sessionId, projectDir)
+			const fs = context.agent!.fs
+
+			await createCheckpoint(context, "call-1", "write", ["a.ts"], 50)
+			await fs.writeFile("/a.ts", "a2")
+			await recordCheckpointChanges(context, "call-1")
+			// e.g. a tool that is not checkpointed
+			await fs.writeFile("/b.ts", "b2")
+
+			const result = await undoToolCall(context, "call-1")
+
+			expect(result.reverted).toEqual(["a.ts"])
+			expect(Buffer.from(await fs.readFile("/b.ts")).toString()).toBe("b2")
+		})
+
+		test("reports conflicts when a file changed again after the call", async () => {
+			const context = await createSession(config, sessionId, projectDir)
+			const fs = context.agent!.fs
+
+			await createCheckpoint(context, "call-1", "write", ["a.ts"], 50)
+			await fs.writeFile("/a.ts", "a2")
+			await recordCheckpointChanges(context, "call-1")
+			await fs.writeFile("/a.ts", "a3")
+
+			const result = await undoToolCall(context, "call-1")
+
+			expect(result.reverted).toEqual([])
+			expect(result.conflicts).toEqual([
+				{ path: "a.ts", reason: "changed again after the tool call" },
+			])
+			expect(Buffer.from(await fs.readFile("/a.ts")).toString()).toBe("a3")
+		})
+
+		test("refuses calls that have not finished", async () => {
+			const context = await createSession(config, sessionId, projectDir)
+
+			await createCheckpoint(context, "call-1", "write", ["a.ts"], 50)
+
+			await expect(undoToolCall(context, "call-1")).rejects.toThrow("has not finished")
+		})
+	})
+})
+
+describe("getCheckpointPaths", () => {
+	const config = parseConfig({})
+	const context = {
+		sessionId: "ses",
+		projectPath: "/project",
+		mount: {
+			sessionId: "ses",
+			projectPath: "/project",
+			mountPath: "/mounts/ses",
+			dbPath: "/project/.agentfs/ses.db",
+			mounted: true,
+		},
+	}
+
+	test("maps rewritten path arguments back to the project", () => {
+		expect(
+			getCheckpointPaths(config, context, "write", { filePath: "/mounts/ses/src/a.ts" }),
+		).toEqual(["src/a.ts"])
+	})
+
+	test("takes only the paths a bash command writes", () => {
+		const command = "cat a.ts > out.txt && rm -rf build /tmp/scratch"
+
+		expect(getCheckpointPaths(config, context, "bash", { command })).toEqual(["out.txt", "build"])
+	})
+})
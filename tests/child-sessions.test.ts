@@ -0,0 +1,117 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test"
+import { mkdir, rm, writeFile } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { listSandboxChanges } from "../src/agentfs/changes"
+import {
+	isStackedChild,
+	mergeChildSession,
+	stackChildSession,
+	unstackChildSession,
+} from "../src/agentfs/child-sessions"
+import {
+	closeSession,
+	createSession,
+	getSession,
+	isSharedSession,
+	shareSession,
+} from "../src/agentfs/client"
+import { type AgentFSConfig, parseConfig } from "../src/config/schema"
+
+describe("child sessions", () => {
+	let testDir: string
+	let projectDir: string
+	let config: AgentFSConfig
+
+	beforeEach(async () => {
+		testDir = join(tmpdir(), `agentfs-child-test-${Date.now()}`)
+		projectDir = join(testDir, "project")
+		await mkdir(projectDir, { recursive: true })
+		await writeFile(join(projectDir, "a.ts"), "a1")
+
+		config = parseConfig({
+			dbPath: join(testDir, ".agentfs/"),
+			mountPath: join(testDir, "mounts/"),
+			autoMount: false,
+		})
+	})
+
+	afterEach(async () => {
+		unstackChildSession("child-session")
+		await closeSession("child-session")
+		await closeSession("parent-session")
+		await rm(testDir, { recursive: true, force: true })
+	})
+
+	describe("shareSession", () => {
+		test("child session resolves to the parent's context", async () => {
+			const parent = await createSession(config, "parent-session", projectDir)
+
+			shareSession("child-session", "parent-session")
+
+			expect(isSharedSession("child-session")).toBe(true)
+			expect(getSession("child-session")).toBe(parent)
+		})
+
+		test("closing the child only unlinks it", async () => {
+			const parent = await createSession(config, "parent-session", projectDir)
+			shareSession("child-session", "parent-session")
+
+			await closeSession("child-session")
+
+			expect(getSession("child-session")).toBeUndefined()
+			expect(getSession("parent-session")).toBe(parent)
+			expect(parent.agent).toBeDefined()
+		})
+
+		test("closing the parent unlinks its children", async () => {
+			await createSession(config, "parent-session", projectDir)
+			shareSession("child-session", "parent-session")
+
+			await closeSession("parent-session")
+
+			expect(isSharedSession("child-session")).toBe(false)
+		})
+
+		test("throws for unknown parents", () => {
+			expect(() => shareSession("child-session", "parent-session")).toThrow("Session not found")
+		})
+	})
+
+	describe("stacked child sessions", () => {
+		test("merges the child's changes back into the parent", async () => {
+			const parent = await createSession(config, "parent-session", projectDir)
+			await parent.agent!.fs.writeFile("/a.ts", "a2")
+			const child = await createSession(config, "child-session", projectDir)
+
+			await stackChildSession("child-session", "parent-session")
+			expect(isStackedChild("child-session")).toBe(true)
+
+			await child.agent!.fs.writeFile("/b.ts", "b1")
+			const result = await mergeChildSession("child-session")
+
+			expect(result).toEqual({ merged: ["b.ts"], conflicts: [] })
+			expect((await listSandboxChanges(parent)).map((change) => change.path)).toEqual([
+				"a.ts",
+				"b.ts",
+			])
+
+			// Nothing new to merge the second time
+			expect(await mergeChildSession("child-session")).toEqual({ merged: [], conflicts: [] })
+		})
+
+		test("reports files changed in both sessions as conflicts", async () => {
+			const parent = await createSession(config, "parent-session", projectDir)
+			const child = await createSession(config, "child-session", projectDir)
+			await stackChildSession("child-session", "parent-session")
+
+			await parent.agent!.fs.writeFile("/a.ts", "from parent")
+			await child.agent!.fs.writeFile("/a.ts", "from child")
+			const result = await mergeChildSession("child-session")
+
+			expect(result.merged).toEqual([])
+			expect(result.conflicts.map((conflict) => conflict.path)).toEqual(["a.ts"])
+			expect(Buffer.from(await parent.agent!.fs.readFile("/a.ts")).toString()).toBe("from parent")
+		})
+	})
+})
@@ -0,0 +1,78 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test"
+import { chmod, mkdir, rm, writeFile } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { checkAgentFSCli, findAgentFSBinary, parseCliVersion } from "../src/agentfs/cli"
+import type { AgentFSCliOptions } from "../src/agentfs/types"
+
+describe("parseCliVersion", () => {
+	test("reads the version from --version output", () => {
+		expect(parseCliVersion("agentfs 0.4.1\n")).toBe("0.4.1")
+		expect(parseCliVersion("agentfs-cli v0.5.0-beta.2")).toBe("0.5.0-beta.2")
+		expect(parseCliVersion("unknown")).toBeUndefined()
+	})
+})
+
+describe("checkAgentFSCli", () => {
+	let binDir: string
+
+	function cli(overrides: Partial<AgentFSCliOptions>): AgentFSCliOptions {
+		return { path: "agentfs", initArgs: [], mountArgs: [], env: {}, ...overrides }
+	}
+
+	beforeEach(async () => {
+		binDir = join(tmpdir(), `agentfs-cli-test-${Date.now()}`)
+		await mkdir(binDir, { recursive: true })
+		// Prints the version given in the environment, like a pinned CI install
+		await writeFile(join(binDir, "agentfs"), '#!/bin/sh\necho "agentfs $AGENTFS_TEST_VERSION"\n')
+		await chmod(join(binDir, "agentfs"), 0o755)
+	})
+
+	afterEach(async () => {
+		await rm(binDir, { recursive: true, force: true })
+	})
+
+	test("accepts a supported CLI outside PATH", async () => {
+		const options = cli({
+			path: join(binDir, "agentfs"),
+			env: { AGENTFS_TEST_VERSION: "0.4.2" },
+		})
+
+		expect(findAgentFSBinary(options)).toBe(join(binDir, "agentfs"))
+		expect(await checkAgentFSCli(options)).toBeUndefined()
+	})
+
+	test("looks names up on the configured PATH", async () => {
+		const options = cli({ env: { PATH: binDir, AGENTFS_TEST_VERSION: "0.4.2" } })
+
+		expect(findAgentFSBinary(options)).toBe(join(binDir, "agentfs"))
+	})
+
+	test("explains how to fix a missing CLI", async () => {
+		expect(await checkAgentFSCli(cli({ path: join(binDir, "missing") }))).toContain(
+			"AgentFS CLI not found. Install with: cargo install agentfs-cli",
+		)
+	})
+
+	test("gives up on a CLI that does not answer", async () => {
+		await writeFile(join(binDir, "agentfs"), "#!/bin/sh\nexec sleep 5\n")
+
+		const error = await checkAgentFSCli(cli({ path: join(binDir, "agentfs") }), undefined, 100)
+		expect(error).toContain("--version did not finish within 100ms")
+	})
+
+	test("rejects unsupported versions", async () => {
+		const error = await checkAgentFSCli(
+			cli({ path: join(binDir, "agentfs"), env: { AGENTFS_TEST_VERSION: "1.2.0" } }),
+		)
+
+		expect(error).toContain("AgentFS CLI 1.2.0")
+		expect(error).toContain("is not supported")
+	})
+
+	test("reports output without a version", async () => {
+		const error = await checkAgentFSCli(cli({ path: join(binDir, "agentfs") }))
+
+		expect(error).toContain("Could not read the AgentFS CLI version")
+	})
+})
@@ -5,11 +5,12 @@ import { join } from "node:path"
 import {
 	closeSession,
 	createSession,
+	createSessionContext,
 	getDbPath,
 	getMountPath,
 	getSession,
 } from "../src/agentfs/client"
-import type { AgentFSConfig } from "../src/config/schema"
+import { type AgentFSConfig, parseConfig } from "../src/config/schema"
 
 describe("AgentFS Client", () => {
 	let testDir: string
@@ -19,15 +20,11 @@ describe("AgentFS Client", () => {
 		testDir = join(tmpdir(), `agentfs-test-${Date.now()}`)
 		await mkdir(testDir, { recursive: true })
 
-		config = {
+		config = parseConfig({
 			dbPath: join(testDir, ".agentfs/"),
 			mountPath: join(testDir, "mounts/"),
 			autoMount: false,
-			toolTracking: {
-				enabled: true,
-				trackAll: true,
-			},
-		}
+		})
 	})
 
 	afterEach(async () => {
@@ -62,6 +59,20 @@ describe("AgentFS Client", () => {
 		expect(context.mount.mounted).toBe(false)
 	})
 
+	test("leaves restarts to the health monitor while it is enabled", async () => {
+		const monitored = await createSessionContext(config, "test-session", testDir)
+		expect(monitored.mount.restart?.maxRestarts).toBe(0)
+
+		await closeSession("test-session")
+
+		const unmonitored = await createSessionContext(
+			parseConfig({ ...config, mountHealth: { enabled: false } }),
+			"test-session",
+			testDir,
+		)
+		expect(unmonitored.mount.restart?.maxRestarts).toBe(config.mountRestart.maxRestarts)
+	})
+
 	test("getSession returns existing session", async () => {
 		await createSession(config, "test-session", testDir)
 
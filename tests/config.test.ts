@@ -10,6 +10,36 @@ describe("Config Schema", () => {
 		expect(config.autoMount).toBe(true)
 		expect(config.toolTracking.enabled).toBe(true)
 		expect(config.toolTracking.trackAll).toBe(true)
+		expect(config.childSessions).toBe("fork")
+		expect(config.pathArgs).toEqual({})
+		expect(config.mountTimeoutMs).toBe(10000)
+		expect(config.mountRestart).toEqual({
+			maxRestarts: 5,
+			initialBackoffMs: 500,
+			maxBackoffMs: 30000,
+		})
+		expect(config.unmount).toEqual({
+			retries: 3,
+			initialBackoffMs: 200,
+			lazyFallback: true,
+			listHolders: true,
+		})
+		expect(config.cli).toEqual({ path: "agentfs", initArgs: [], mountArgs: [], env: {} })
+		expect(config.retention).toEqual({
+			enabled: true,
+			maxAgeDays: 30,
+			maxSessions: 100,
+			maxTotalBytes: 1024 * 1024 * 1024,
+			keepUnapplied: true,
+		})
+		expect(config.mountHealth).toEqual({ enabled: true, intervalMs: 10000, maxRemounts: 3 })
+		expect(config.pathPolicy).toEqual({
+			deny: [],
+			readOnly: [],
+			hide: [".env*", "!.env.example", "*.pem", "~/.aws"],
+			outside: "warn",
+			allowOutside: ["/tmp", "/dev"],
+		})
 	})
 
 	test("parses custom config", () => {
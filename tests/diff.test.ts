@@ -0,0 +1,56 @@
+import { describe, expect, test } from "bun:test"
+import { createUnifiedDiff } from "../src/tools/diff"
+
+describe("createUnifiedDiff", () => {
+	test("returns empty string for identical content", () => {
+		expect(createUnifiedDiff("a.ts", "same\n", "same\n")).toBe("")
+	})
+
+	test("diffs a modified line with context", () => {
+		const before = "one\ntwo\nthree\nfour\n"
+		const after = "one\ntwo\n3\nfour\n"
+
+		expect(createUnifiedDiff("a.ts", before, after)).toBe(
+			["--- a/a.ts", "+++ b/a.ts", "@@ -1,4 +1,4 @@", " one", " two", "-three", "+3", " four"].join(
+				"\n",
+			),
+		)
+	})
+
+	test("uses /dev/null for created files", () => {
+		expect(createUnifiedDiff("new.ts", undefined, "hello\n")).toBe(
+			["--- /dev/null", "+++ b/new.ts", "@@ -0,0 +1,1 @@", "+hello"].join("\n"),
+		)
+	})
+
+	test("uses /dev/null for deleted files", () => {
+		expect(createUnifiedDiff("old.ts", "bye\n", undefined)).toBe(
+			["--- a/old.ts", "+++ /dev/null", "@@ -1,1 +0,0 @@", "-bye"].join("\n"),
+		)
+	})
+
+	test("splits distant changes into separate hunks", () => {
+		const lines = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`)
+		const changed = [...lines]
+		changed[1] = "changed 2"
+		changed[17] = "changed 18"
+
+		const diff = createUnifiedDiff("a.ts", lines.join("\n"), changed.join("\n"))
+		const hunkHeaders = diff.split("\n").filter((line) => line.startsWith("@@"))
+
+		expect(hunkHeaders).toEqual(["@@ -1,5 +1,5 @@", "@@ -15,6 +15,6 @@"])
+	})
+
+	test("diffs a small change in a large file", () => {
+		const lines = Array.from({ length: 50_000 }, (_, i) => `line ${i + 1}`)
+		const changed = [...lines]
+		changed[25_000] = "changed"
+
+		const diff = createUnifiedDiff("big.ts", lines.join("\n"), changed.join("\n"))
+
+		expect(diff.split("\n").filter((line) => /^[-+]line|^[-+]changed/.test(line))).toEqual([
+			"-line 25001",
+			"+changed",
+		])
+	})
+})
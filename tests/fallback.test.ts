@@ -0,0 +1,153 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test"
+import { cp, mkdir, readFile, rm, writeFile } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import type { ToolContext } from "@opencode-ai/plugin"
+import { spawnSync } from "bun"
+import { closeDatabase, closeSession, createSession, getSession } from "../src/agentfs/client"
+import { parseConfig } from "../src/config/schema"
+import { createFallbackTools } from "../src/tools/fallback"
+
+describe("createFallbackTools", () => {
+	let testDir: string
+	let projectDir: string
+	let tools: ReturnType<typeof createFallbackTools>
+	const sessionId = "test-fallback-session"
+	const context: ToolContext = {
+		sessionID: sessionId,
+		messageID: "msg-1",
+		agent: "build",
+		abort: new AbortController().signal,
+	}
+
+	beforeEach(async () => {
+		testDir = join(tmpdir(), `agentfs-fallback-test-${Date.now()}`)
+		projectDir = join(testDir, "project")
+		await mkdir(join(projectDir, "src"), { recursive: true })
+		await writeFile(join(projectDir, "src", "a.ts"), "export const a = 1\nexport const b = 2\n")
+
+		const config = parseConfig({
+			dbPath: join(testDir, ".agentfs/"),
+			mountPath: join(testDir, "mounts/"),
+			autoMount: false,
+		})
+		await createSession(config, sessionId, projectDir)
+		tools = createFallbackTools(config)
+	})
+
+	afterEach(async () => {
+		await closeSession(sessionId)
+		await rm(testDir, { recursive: true, force: true })
+	})
+
+	test("read falls through to the base project", async () => {
+		const output = await tools.read!.execute({ filePath: join(projectDir, "src/a.ts") }, context)
+
+		expect(output).toBe(
+			"<file>\n00001| export const a = 1\n00002| export const b = 2\n00003| \n</file>",
+		)
+	})
+
+	test("write and edit only change the sandbox", async () => {
+		await tools.write!.execute({ filePath: "src/new.ts", content: "new" }, context)
+		await tools.edit!.execute(
+			{ filePath: join(projectDir, "src/a.ts"), oldString: "a = 1", newString: "a = 42" },
+			context,
+		)
+
+		const read = await tools.read!.execute({ filePath: "src/a.ts" }, context)
+		expect(read).toContain("export const a = 42")
+		expect(await readFile(join(projectDir, "src", "a.ts"), "utf8")).toContain("a = 1")
+		expect(await Bun.file(join(projectDir, "src", "new.ts")).exists()).toBe(false)
+	})
+
+	test("edit rejects ambiguous matches", async () => {
+		await expect(
+			tools.edit!.execute(
+				{ filePath: "src/a.ts", oldString: "export const", newString: "const" },
+				context,
+			),
+		).rejects.toThrow("found multiple times")
+	})
+
+	test("glob and grep see sandbox and base files", async () => {
+		await tools.write!.execute({ filePath: "src/b.ts", content: "export const b = 3\n" }, context)
+
+		const glob = await tools.glob!.execute({ pattern: "**/*.ts" }, context)
+		expect(glob.split("\n").sort()).toEqual([
+			join(projectDir, "src/a.ts"),
+			join(projectDir, "src/b.ts"),
+		])
+
+		const grep = await tools.grep!.execute({ pattern: "const b", include: "*.ts" }, context)
+		expect(grep).toStartWith("Found 2 matches")
+		expect(grep).toContain(`${join(projectDir, "src/b.ts")}:\n  Line 1: export const b = 3`)
+	})
+
+	test("glob and grep skip .git, node_modules and gitignored files", async () => {
+		spawnSync(["git", "init", "-q"], { cwd: projectDir })
+		await writeFile(join(projectDir, ".gitignore"), "dist/\n")
+		for (const dir of ["node_modules/dep", "dist"]) {
+			await mkdir(join(projectDir, dir), { recursive: true })
+			await writeFile(join(projectDir, dir, "index.ts"), "export const a = 1\n")
+		}
+
+		const glob = await tools.glob!.execute({ pattern: "**/*.ts" }, context)
+		expect(glob).toBe(join(projectDir, "src/a.ts"))
+
+		const grep = await tools.grep!.execute({ pattern: "const a" }, context)
+		expect(grep).toStartWith("Found 1 matches")
+	})
+
+	test("reads outside the project from the host", async () => {
+		const outside = join(testDir, "outside")
+		await mkdir(outside)
+		await writeFile(join(outside, "notes.txt"), "outside notes\n")
+
+		const read = await tools.read!.execute({ filePath: join(outside, "notes.txt") }, context)
+		expect(read).toContain("00001| outside notes")
+
+		const grep = await tools.grep!.execute({ pattern: "notes", path: outside }, context)
+		expect(grep).toContain(`${join(outside, "notes.txt")}:\n  Line 1: outside notes`)
+	})
+
+	test("refuses writes outside the project", async () => {
+		const outside = join(testDir, "outside.txt")
+
+		await expect(
+			tools.write!.execute({ filePath: outside, content: "x" }, context),
+		).rejects.toThrow("outside the project")
+		expect(await Bun.file(outside).exists()).toBe(false)
+	})
+
+	test("refuses sessions that are not initialized", async () => {
+		await expect(
+			tools.write!.execute(
+				{ filePath: "src/a.ts", content: "x" },
+				{ ...context, sessionID: "unknown" },
+			),
+		).rejects.toThrow("not initialized")
+		expect(await readFile(join(projectDir, "src", "a.ts"), "utf8")).toContain("a = 1")
+	})
+
+	test("opens the session database when the sandbox is not mounted", async () => {
+		await closeDatabase(sessionId)
+
+		await tools.write!.execute({ filePath: "src/a.ts", content: "changed" }, context)
+
+		expect(getSession(sessionId)?.agent).toBeDefined()
+		expect(await readFile(join(projectDir, "src", "a.ts"), "utf8")).toContain("a = 1")
+	})
+
+	test("uses the mount while the session is mounted", async () => {
+		const session = getSession(sessionId)!
+		await cp(projectDir, session.mount.mountPath, { recursive: true })
+		session.mount.mounted = true
+
+		await tools.write!.execute({ filePath: "src/a.ts", content: "mounted" }, context)
+		session.mount.mounted = false
+
+		expect(await readFile(join(session.mount.mountPath, "src", "a.ts"), "utf8")).toBe("mounted")
+		expect(await readFile(join(projectDir, "src", "a.ts"), "utf8")).toContain("a = 1")
+	})
+})
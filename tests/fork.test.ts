@@ -0,0 +1,58 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test"
+import { mkdir, rm, writeFile } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { listSandboxChanges } from "../src/agentfs/changes"
+import { closeSession, createSession } from "../src/agentfs/client"
+import { forkSession } from "../src/agentfs/fork"
+import { type AgentFSConfig, parseConfig } from "../src/config/schema"
+
+describe("forkSession", () => {
+	let testDir: string
+	let projectDir: string
+	let config: AgentFSConfig
+
+	beforeEach(async () => {
+		testDir = join(tmpdir(), `agentfs-fork-test-${Date.now()}`)
+		projectDir = join(testDir, "project")
+		await mkdir(projectDir, { recursive: true })
+		await writeFile(join(projectDir, "a.ts"), "a1")
+
+		config = parseConfig({
+			dbPath: join(testDir, ".agentfs/"),
+			mountPath: join(testDir, "mounts/"),
+			autoMount: false,
+		})
+	})
+
+	afterEach(async () => {
+		await closeSession("source-session")
+		await closeSession("fork-session")
+		await rm(testDir, { recursive: true, force: true })
+	})
+
+	test("copies the source sandbox into the new session", async () => {
+		const source = await createSession(config, "source-session", projectDir)
+		await source.agent!.fs.writeFile("/a.ts", "a2")
+		await source.agent!.fs.writeFile("/src/b.ts", "b1")
+
+		const target = await createSession(config, "fork-session", projectDir)
+		const copied = await forkSession("source-session", "fork-session")
+
+		expect(copied).toBe(2)
+		expect(await listSandboxChanges(target)).toEqual(await listSandboxChanges(source))
+		expect(await target.agent!.kv.get<string>("session:forkedFrom")).toBe("source-session")
+
+		// The fork is independent of its source afterwards
+		await target.agent!.fs.writeFile("/c.ts", "c1")
+		expect(await listSandboxChanges(source)).toHaveLength(2)
+	})
+
+	test("throws for unknown sessions", async () => {
+		await createSession(config, "fork-session", projectDir)
+
+		await expect(forkSession("source-session", "fork-session")).rejects.toThrow(
+			"Session not found: source-session",
+		)
+	})
+})
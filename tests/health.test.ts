@@ -0,0 +1,139 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test"
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { spawnSync } from "bun"
+import { closeSession, createSession } from "../src/agentfs/client"
+import {
+	checkMountHealth,
+	isMountMonitored,
+	startMountMonitor,
+	stopMountMonitor,
+} from "../src/agentfs/health"
+import { mountSandbox } from "../src/agentfs/mount"
+import { hideSecretFiles } from "../src/agentfs/secrets"
+import type { SessionContext } from "../src/agentfs/types"
+import { parseConfig } from "../src/config/schema"
+import { createMountGuardHandler } from "../src/hooks/mount-guard"
+
+function git(cwd: string, ...args: string[]) {
+	const result = spawnSync(["git", ...args], { cwd })
+	if (result.exitCode !== 0) {
+		throw new Error(result.stderr.toString())
+	}
+}
+
+describe("mount health monitor", () => {
+	let testDir: string
+	let projectDir: string
+	let context: SessionContext
+	const sessionId = "health-session"
+
+	beforeEach(async () => {
+		testDir = join(tmpdir(), `agentfs-health-test-${Date.now()}`)
+		projectDir = join(testDir, "project")
+		await mkdir(projectDir, { recursive: true })
+		await writeFile(join(projectDir, "a.ts"), "export const a = 1")
+		git(projectDir, "init", "-q")
+		git(projectDir, "add", ".")
+		git(
+			projectDir,
+			"-c",
+			"user.name=test",
+			"-c",
+			"user.email=test@example.com",
+			"commit",
+			"-qm",
+			"init",
+		)
+		await writeFile(join(projectDir, ".env"), "SECRET=1")
+
+		context = await createSession(
+			parseConfig({
+				dbPath: join(testDir, ".agentfs/"),
+				mountPath: join(testDir, "mounts/"),
+				mountBackend: "git-worktree",
+			}),
+			sessionId,
+			projectDir,
+		)
+		await mountSandbox(context.mount, projectDir)
+	})
+
+	afterEach(async () => {
+		stopMountMonitor(sessionId)
+		await closeSession(sessionId)
+		await rm(testDir, { recursive: true, force: true })
+	})
+
+	test("leaves a healthy sandbox alone", async () => {
+		await writeFile(join(context.mount.mountPath, "b.ts"), "kept")
+
+		expect(await checkMountHealth(context, { intervalMs: 1000, maxRemounts: 1 })).toBe(true)
+		expect(await readFile(join(context.mount.mountPath, "b.ts"), "utf8")).toBe("kept")
+	})
+
+	test("remounts a sandbox that disappeared and hides secrets again", async () => {
+		await hideSecretFiles(context, [".env*"])
+		await rm(context.mount.mountPath, { recursive: true, force: true })
+
+		expect(await checkMountHealth(context, { intervalMs: 1000, maxRemounts: 1 })).toBe(true)
+		expect(context.mount.mounted).toBe(true)
+		expect(context.mount.error).toBeUndefined()
+		expect(await readFile(join(context.mount.mountPath, "a.ts"), "utf8")).toBe("export const a = 1")
+		expect(await Bun.file(join(context.mount.mountPath, ".env")).exists()).toBe(false)
+	})
+
+	test("marks the sandbox unmounted and reports when it cannot remount", async () => {
+		const failures: string[] = []
+		await rm(context.mount.mountPath, { recursive: true, force: true })
+
+		const healthy = await checkMountHealth(context, {
+			intervalMs: 1000,
+			maxRemounts: 0,
+			onFailure: (message) => failures.push(message),
+		})
+
+		expect(healthy).toBe(false)
+		expect(context.mount.mounted).toBe(false)
+		expect(context.mount.error).toContain("Worktree not accessible")
+		expect(failures).toEqual([context.mount.error as string])
+	})
+
+	test("blocks mutating tools the fallback cannot serve once the sandbox is lost", async () => {
+		const guard = createMountGuardHandler(parseConfig({}))
+		const input = { sessionID: sessionId, callID: "call-1" }
+		expect(() => guard({ ...input, tool: "bash" })).not.toThrow()
+
+		await rm(context.mount.mountPath, { recursive: true, force: true })
+		await checkMountHealth(context, { intervalMs: 1000, maxRemounts: 0 })
+
+		expect(context.mount.lost).toBe(true)
+		expect(() => guard({ ...input, tool: "bash" })).toThrow("would change the real project")
+		expect(() => guard({ ...input, tool: "patch" })).toThrow("sandbox of this session was lost")
+		expect(() => guard({ ...input, tool: "write" })).not.toThrow()
+		expect(() => guard({ ...input, tool: "read" })).not.toThrow()
+		expect(() =>
+			createMountGuardHandler(parseConfig({ sdkFallback: "off" }))({ ...input, tool: "write" }),
+		).toThrow("would change the real project")
+
+		await mountSandbox(context.mount, projectDir)
+		expect(() => guard({ ...input, tool: "bash" })).not.toThrow()
+	})
+
+	test("probes periodically once started", async () => {
+		startMountMonitor(context, { intervalMs: 20, maxRemounts: 1 })
+		await rm(context.mount.mountPath, { recursive: true, force: true })
+
+		for (
+			let i = 0;
+			i < 100 && !(await Bun.file(join(context.mount.mountPath, "a.ts")).exists());
+			i++
+		) {
+			await Bun.sleep(20)
+		}
+
+		expect(await Bun.file(join(context.mount.mountPath, "a.ts")).exists()).toBe(true)
+		expect(isMountMonitored(sessionId)).toBe(true)
+	})
+})
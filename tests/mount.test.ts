@@ -5,8 +5,14 @@ import { join } from "node:path"
 import {
 	buildInitCommand,
 	buildMountCommand,
+	buildSupervisorCommand,
+	findMountHolders,
 	isAgentFSInstalled,
+	isBusyError,
+	isMountPoint,
 	mountOverlay,
+	parseMountInfo,
+	parseMountOutput,
 	unmountOverlay,
 } from "../src/agentfs/mount"
 import type { MountInfo } from "../src/agentfs/types"
@@ -40,30 +46,151 @@ describe("Mount Commands", () => {
 
 			expect(cmd[2]).toBe("session-with-dashes_and_underscores")
 		})
+
+		test("uses the configured binary and extra arguments", () => {
+			const cmd = buildInitCommand("session", "/project", {
+				path: "/opt/agentfs/bin/agentfs",
+				initArgs: ["--quiet"],
+				mountArgs: [],
+				env: {},
+			})
+
+			expect(cmd).toEqual([
+				"/opt/agentfs/bin/agentfs",
+				"init",
+				"session",
+				"--base",
+				"/project",
+				"--quiet",
+			])
+		})
 	})
 
 	describe("buildMountCommand", () => {
-		test("builds shell command with watchdog", () => {
-			const cmd = buildMountCommand("my-session", "/mount/point", 12345)
+		test("runs agentfs mount in the foreground", () => {
+			const cmd = buildMountCommand("my-session", "/mount/point")
+
+			expect(cmd).toEqual([
+				"agentfs",
+				"mount",
+				"my-session",
+				"/mount/point",
+				"-f",
+				"--auto-unmount",
+			])
+		})
 
-			expect(cmd[0]).toBe("sh")
-			expect(cmd[1]).toBe("-c")
-			expect(cmd[2]).toContain("agentfs mount my-session /mount/point")
-			expect(cmd[2]).toContain("-f --auto-unmount")
-			expect(cmd[2]).toContain("kill -0 12345") // monitors parent PID
-			expect(cmd[2]).toContain("fusermount -u /mount/point") // cleanup on parent death
+		test("passes paths with spaces and shell metacharacters as single arguments", () => {
+			const cmd = buildMountCommand("session", "/path/with spaces/$(touch x);mount")
+
+			expect(cmd[3]).toBe("/path/with spaces/$(touch x);mount")
 		})
 
-		test("includes correct parent PID in watchdog script", () => {
-			const cmd = buildMountCommand("test-session", "/home/user/.agentfs/mounts/test", 99999)
+		test("uses the configured binary and appends mount arguments", () => {
+			const cmd = buildMountCommand("session", "/mount/point", {
+				path: "/opt/agent fs/agentfs",
+				initArgs: [],
+				mountArgs: ["--cache", "none"],
+				env: {},
+			})
+
+			expect(cmd).toEqual([
+				"/opt/agent fs/agentfs",
+				"mount",
+				"session",
+				"/mount/point",
+				"-f",
+				"--auto-unmount",
+				"--cache",
+				"none",
+			])
+		})
+	})
 
-			expect(cmd[2]).toContain("kill -0 99999")
+	describe("buildSupervisorCommand", () => {
+		test("runs the supervisor script with its options as one JSON argument", () => {
+			const options = {
+				command: ["agentfs", "mount", "session", "/mount/it's here"],
+				cwd: "/project",
+				mountPath: "/mount/it's here",
+				parentPid: 12345,
+				maxRestarts: 5,
+				initialBackoffMs: 500,
+				maxBackoffMs: 30000,
+			}
+			const cmd = buildSupervisorCommand(options)
+
+			expect(cmd[0]).toBe(process.execPath)
+			expect(cmd[1]).toEndWith("supervisor.ts")
+			expect(JSON.parse(cmd[2] as string)).toEqual(options)
 		})
+	})
 
-		test("handles paths with spaces", () => {
-			const cmd = buildMountCommand("session", "/path/with spaces/mount", 12345)
+	describe("parseMountInfo", () => {
+		test("reads the mount point field past optional fields", () => {
+			const text = [
+				"22 1 0:21 / /proc rw,nosuid shared:5 - proc proc rw",
+				"95 29 0:45 / /home/user/.agentfs/mounts/ses_1 rw,nosuid,nodev shared:52 master:1 - fuse.agentfs agentfs rw,user_id=1000",
+				"",
+			].join("\n")
+
+			expect(parseMountInfo(text)).toEqual(["/proc", "/home/user/.agentfs/mounts/ses_1"])
+		})
+
+		test("decodes escaped characters in mount points", () => {
+			const text = "95 29 0:45 / /mnt/with\\040space rw - fuse.agentfs agentfs rw"
+
+			expect(parseMountInfo(text)).toEqual(["/mnt/with space"])
+		})
+	})
+
+	describe("parseMountOutput", () => {
+		test("reads Linux and macOS mount lines", () => {
+			const text = [
+				"agentfs on /home/user/mounts/ses_1 type fuse.agentfs (rw,nosuid)",
+				"agentfs@macfuse0 on /Users/me/mounts/ses 2 (macfuse, nodev, nosuid)",
+			].join("\n")
+
+			expect(parseMountOutput(text)).toEqual(["/home/user/mounts/ses_1", "/Users/me/mounts/ses 2"])
+		})
+	})
 
-			expect(cmd[2]).toContain("/path/with spaces/mount")
+	describe("isMountPoint", () => {
+		test("matches mount points exactly", async () => {
+			expect(await isMountPoint("/")).toBe(true)
+			expect(await isMountPoint(join(tmpdir(), "not-a-mount"))).toBe(false)
+		})
+	})
+
+	describe("isBusyError", () => {
+		test("recognizes busy mount points from fusermount and umount", () => {
+			expect(isBusyError("fusermount: failed to unmount /mnt/ses: Device or resource busy")).toBe(
+				true,
+			)
+			expect(isBusyError("umount: /mnt/ses: target is busy.")).toBe(true)
+			expect(isBusyError("fusermount: entry for /mnt/ses not found in /etc/mtab")).toBe(false)
+		})
+	})
+
+	describe("findMountHolders", () => {
+		test("finds processes working inside the directory", async () => {
+			if (process.platform !== "linux") return
+
+			const dir = join(tmpdir(), `agentfs-holders-${Date.now()}`)
+			await mkdir(join(dir, "sub"), { recursive: true })
+			const proc = Bun.spawn(["sleep", "10"], { cwd: join(dir, "sub") })
+			try {
+				const holders = await findMountHolders(dir)
+
+				expect(holders).toContainEqual({ pid: proc.pid, command: "sleep" })
+				expect(await findMountHolders(join(dir, "sub-other"))).not.toContainEqual(
+					expect.objectContaining({ pid: proc.pid }),
+				)
+			} finally {
+				proc.kill()
+				await proc.exited
+				await rm(dir, { recursive: true, force: true })
+			}
 		})
 	})
 
@@ -149,6 +276,22 @@ describe("Mount Integration", () => {
 		expect(mount.mounted).toBe(false)
 	})
 
+	test("unmountOverlay reports success when nothing is mounted anymore", async () => {
+		const mount: MountInfo = {
+			sessionId: "test-session",
+			projectPath: projectDir,
+			mountPath: mountDir,
+			dbPath: join(projectDir, ".agentfs", "test-session.db"),
+			mounted: true,
+			error: "Mount point not accessible",
+		}
+
+		await unmountOverlay(mount)
+
+		expect(mount.mounted).toBe(false)
+		expect(mount.error).toBeUndefined()
+	})
+
 	// Integration test that requires agentfs CLI to be installed
 	// This test will be skipped if the CLI is not available
 	test("full mount/unmount lifecycle with --base", async () => {
@@ -0,0 +1,262 @@
+import { describe, expect, test } from "bun:test"
+import { parseConfig } from "../src/config/schema"
+import {
+	checkPathPolicy,
+	classifyPath,
+	collectToolPaths,
+	createPathPolicyAfterHandler,
+	createPathPolicyHandler,
+	forgetPathWarnings,
+} from "../src/hooks/path-policy"
+
+const projectPath = "/home/user/project"
+const config = parseConfig({
+	pathPolicy: {
+		deny: [".env", "secrets/**"],
+		readOnly: [".git/**", "package-lock.json"],
+	},
+})
+
+describe("checkPathPolicy", () => {
+	test("denies matching paths at any depth for name patterns", () => {
+		expect(checkPathPolicy(config, ".env", false)).toContain("denied")
+		expect(checkPathPolicy(config, "apps/web/.env", false)).toContain("deny: .env")
+		expect(checkPathPolicy(config, ".env.example", false)).toBeUndefined()
+	})
+
+	test("anchors patterns with a slash at the project root", () => {
+		expect(checkPathPolicy(config, "secrets/prod/key.pem", false)).toContain("secrets/**")
+		expect(checkPathPolicy(config, "docs/secrets/readme.md", false)).toBeUndefined()
+	})
+
+	test("blocks only writes to read-only paths", () => {
+		expect(checkPathPolicy(config, ".git/config", false)).toBeUndefined()
+		expect(checkPathPolicy(config, ".git/config", true)).toContain("read-only")
+		expect(checkPathPolicy(config, "package-lock.json", true)).toContain("package-lock.json")
+	})
+})
+
+describe("classifyPath", () => {
+	test("tells mount, project and outside paths apart", () => {
+		const mountPath = "/home/user/.agentfs/mounts/ses_1"
+		expect(classifyPath(`${mountPath}/a.ts`, projectPath, mountPath)).toBe("mount")
+		expect(classifyPath(`${projectPath}/a.ts`, projectPath, mountPath)).toBe("project")
+		expect(classifyPath("/home/user/sibling/a.ts", projectPath, mountPath)).toBe("outside")
+		expect(classifyPath(`${mountPath}/a.ts`, projectPath)).toBe("outside")
+	})
+})
+
+describe("collectToolPaths", () => {
+	test("collects path arguments of file tools", () => {
+		expect(
+			collectToolPaths(config, "multiedit", { filePath: "a.ts", edits: [{ filePath: "b.ts" }] }),
+		).toEqual([
+			{ path: "a.ts", write: true },
+			{ path: "b.ts", write: true },
+		])
+		expect(collectToolPaths(config, "read", { filePath: "a.ts" })).toEqual([
+			{ path: "a.ts", write: false },
+		])
+	})
+
+	test("collects the files of a patch", () => {
+		const patchText = "*** Begin Patch\n*** Update File: src/a.ts\n@@\n-a\n+b\n*** End Patch"
+		expect(collectToolPaths(config, "patch", { patchText })).toEqual([
+			{ path: "src/a.ts", write: true },
+		])
+	})
+
+	test("collects paths from bash commands", () => {
+		const paths = collectToolPaths(config, "bash", {
+			command: "cat .env && echo x > .git/HEAD; rm -f 'package-lock.json'",
+		})
+		expect(paths).toEqual([
+			{ path: ".env", write: false },
+			{ path: "x", write: false },
+			{ path: ".git/HEAD", write: true },
+			{ path: "package-lock.json", write: true },
+		])
+	})
+})
+
+describe("createPathPolicyHandler", () => {
+	const handler = createPathPolicyHandler(config, projectPath)
+	const input = { sessionID: "no-session", callID: "call-1" }
+
+	test("throws for denied reads", () => {
+		expect(() =>
+			handler({ ...input, tool: "read" }, { args: { filePath: `${projectPath}/.env` } }),
+		).toThrow("Access to .env is denied")
+	})
+
+	test("throws for writes to read-only paths, including from bash", () => {
+		expect(() =>
+			handler({ ...input, tool: "bash" }, { args: { command: "sed -i s/a/b/ .git/config" } }),
+		).toThrow(".git/config is read-only")
+		expect(() =>
+			handler({ ...input, tool: "bash" }, { args: { command: "git log .git/config" } }),
+		).not.toThrow()
+	})
+
+	test("resolves bash paths against the workdir and cd targets", () => {
+		expect(() =>
+			handler({ ...input, tool: "bash" }, { args: { command: "cd secrets && cat key" } }),
+		).toThrow("secrets/key is denied")
+		expect(() =>
+			handler({ ...input, tool: "bash" }, { args: { command: "cat key", workdir: "secrets" } }),
+		).toThrow("secrets/key is denied")
+		expect(() =>
+			handler({ ...input, tool: "bash" }, { args: { command: "cd src && cat key" } }),
+		).not.toThrow()
+	})
+
+	test("throws for bash paths after a cd that cannot be resolved statically", () => {
+		expect(() =>
+			handler({ ...input, tool: "bash" }, { args: { command: 'cd "$DIR" && cat key' } }),
+		).toThrow("only known when it runs")
+		expect(() =>
+			handler({ ...input, tool: "bash" }, { args: { command: 'cd "$DIR" && ls /tmp' } }),
+		).not.toThrow()
+	})
+
+	test("does not apply project rules outside the project", () => {
+		expect(() =>
+			handler({ ...input, tool: "read" }, { args: { filePath: "/etc/.env" } }),
+		).not.toThrow()
+	})
+
+	test("blocks hidden host paths", () => {
+		expect(() =>
+			handler({ ...input, tool: "bash" }, { args: { command: "cat ~/.aws/credentials" } }),
+		).toThrow("is hidden by the AgentFS path policy")
+	})
+
+	test("does nothing without rules", () => {
+		const open = createPathPolicyHandler(
+			parseConfig({ pathPolicy: { hide: [], outside: "allow" } }),
+			projectPath,
+		)
+		expect(() => open({ ...input, tool: "read" }, { args: { filePath: ".env" } })).not.toThrow()
+	})
+})
+
+describe("outside path policy", () => {
+	const input = { sessionID: "no-session", callID: "call-1" }
+
+	test("blocks paths outside the project unless allowlisted", () => {
+		const handler = createPathPolicyHandler(
+			parseConfig({ pathPolicy: { outside: "block" } }),
+			projectPath,
+		)
+
+		expect(() =>
+			handler({ ...input, tool: "write" }, { args: { filePath: "/etc/foo", content: "" } }),
+		).toThrow("write call reaches outside the sandbox: /etc/foo")
+		expect(() =>
+			handler({ ...input, tool: "write" }, { args: { filePath: "../sibling-repo/x" } }),
+		).toThrow("/home/user/sibling-repo/x")
+		expect(() =>
+			handler({ ...input, tool: "bash" }, { args: { command: "ls > /tmp/out 2>/dev/null" } }),
+		).not.toThrow()
+		expect(() =>
+			handler({ ...input, tool: "read" }, { args: { filePath: "src/a.ts" } }),
+		).not.toThrow()
+	})
+
+	test("warns once per session and path", () => {
+		const toasts: unknown[] = []
+		const client = {
+			app: { log: () => {} },
+			tui: { showToast: (toast: unknown) => toasts.push(toast) },
+		}
+		const handler = createPathPolicyHandler(
+			parseConfig({}),
+			projectPath,
+			client as unknown as Parameters<typeof createPathPolicyHandler>[2],
+		)
+
+		handler({ ...input, tool: "write" }, { args: { filePath: "/etc/hosts" } })
+		handler({ ...input, tool: "write" }, { args: { filePath: "/etc/hosts" } })
+		handler({ ...input, tool: "write" }, { args: { filePath: "/tmp/scratch" } })
+
+		expect(toasts).toHaveLength(1)
+		expect(JSON.stringify(toasts[0])).toContain("/etc/hosts")
+
+		forgetPathWarnings(input.sessionID)
+		handler({ ...input, tool: "write" }, { args: { filePath: "/etc/hosts" } })
+		expect(toasts).toHaveLength(2)
+	})
+
+	test("does not warn about reads outside the project", () => {
+		const toasts: unknown[] = []
+		const client = {
+			app: { log: () => {} },
+			tui: { showToast: (toast: unknown) => toasts.push(toast) },
+		}
+		const handler = createPathPolicyHandler(
+			parseConfig({}),
+			projectPath,
+			client as unknown as Parameters<typeof createPathPolicyHandler>[2],
+		)
+
+		handler({ ...input, tool: "bash" }, { args: { command: "ls /usr/bin && grep foo /etc/hosts" } })
+		handler({ ...input, tool: "read" }, { args: { filePath: "/etc/hosts" } })
+		expect(toasts).toHaveLength(0)
+
+		handler({ ...input, tool: "bash" }, { args: { command: "echo x > /etc/motd" } })
+		expect(toasts).toHaveLength(1)
+	})
+
+	test("allows everything when set to allow", () => {
+		const handler = createPathPolicyHandler(
+			parseConfig({ pathPolicy: { outside: "allow" } }),
+			projectPath,
+		)
+		expect(() =>
+			handler({ ...input, tool: "write" }, { args: { filePath: "/etc/foo" } }),
+		).not.toThrow()
+	})
+})
+
+describe("createPathPolicyAfterHandler", () => {
+	const handler = createPathPolicyAfterHandler(config, projectPath)
+	const input = { sessionID: "no-session", callID: "call-1" }
+	const run = (tool: string, output: string) => {
+		const result = { title: "", output, metadata: {} }
+		handler({ ...input, tool }, result)
+		return result.output
+	}
+
+	test("removes denied files from glob results", () => {
+		const output = [`${projectPath}/src/a.ts`, `${projectPath}/secrets/key.pem`].join("\n")
+		expect(run("glob", output)).toBe(`${projectPath}/src/a.ts`)
+		expect(run("glob", `${projectPath}/.env`)).toBe("No files found")
+	})
+
+	test("removes denied files and their matches from grep results", () => {
+		const output = [
+			"Found 3 matches",
+			"",
+			`${projectPath}/.env:`,
+			"  Line 1: TOKEN=abc",
+			"",
+			`${projectPath}/src/a.ts:`,
+			"  Line 2: const TOKEN = env.TOKEN",
+			"  Line 3: export { TOKEN }",
+		].join("\n")
+
+		expect(run("grep", output)).toBe(
+			[
+				"Found 2 matches",
+				"",
+				`${projectPath}/src/a.ts:`,
+				"  Line 2: const TOKEN = env.TOKEN",
+				"  Line 3: export { TOKEN }",
+			].join("\n"),
+		)
+	})
+
+	test("leaves other tools alone", () => {
+		expect(run("bash", `${projectPath}/.env`)).toBe(`${projectPath}/.env`)
+	})
+})
@@ -3,13 +3,16 @@ import { mkdir, rm } from "node:fs/promises"
 import { tmpdir } from "node:os"
 import { join } from "node:path"
 import { closeSession, createSessionContext, getSession } from "../src/agentfs/client"
-import type { AgentFSConfig } from "../src/config/schema"
+import { type AgentFSConfig, parseConfig } from "../src/config/schema"
 import {
 	containsMountPath,
 	createPathRewriteAfterHandler,
+	createPathRewriteHandler,
 	extractAgentFSPattern,
+	getPathTools,
 	hasStringField,
 	normalizePath,
+	rewriteFieldPath,
 	rewritePathsInOutput,
 	rewritePathsInString,
 	toMountPath,
@@ -577,15 +580,11 @@ describe("createPathRewriteAfterHandler", () => {
 		testDir = join(tmpdir(), `agentfs-path-rewrite-test-${Date.now()}`)
 		await mkdir(testDir, { recursive: true })
 
-		config = {
+		config = parseConfig({
 			dbPath: join(testDir, ".agentfs/"),
 			mountPath: join(testDir, "mounts/"),
 			autoMount: true,
-			toolTracking: {
-				enabled: true,
-				trackAll: true,
-			},
-		}
+		})
 	})
 
 	afterEach(async () => {
@@ -698,6 +697,55 @@ describe("createPathRewriteAfterHandler", () => {
 		expect(output.metadata.filepath).toBe(`${projectPath}/poem.txt`)
 	})
 
+	test("rewrites the output body", async () => {
+		const projectPath = "/home/user/project"
+		await createSessionContext(config, sessionId, projectPath)
+		const session = getSession(sessionId)!
+		session.mount.mounted = true
+		const mountPath = session.mount.mountPath
+
+		const output = {
+			title: "grep",
+			output: `${mountPath}/a.ts:\n  Line 1: foo\n${mountPath}/b.ts:\n  Line 2: foo`,
+			metadata: {},
+		}
+		createPathRewriteAfterHandler(config)(
+			{ tool: "grep", sessionID: sessionId, callID: "call-1" },
+			output,
+		)
+
+		expect(output.output).toBe(
+			`${projectPath}/a.ts:\n  Line 1: foo\n${projectPath}/b.ts:\n  Line 2: foo`,
+		)
+	})
+
+	test("rewrites nested metadata strings", async () => {
+		const projectPath = "/home/user/project"
+		await createSessionContext(config, sessionId, projectPath)
+		const session = getSession(sessionId)!
+		session.mount.mounted = true
+		const mountPath = session.mount.mountPath
+
+		const metadata: Record<string, unknown> = {
+			filepath: `${mountPath}/a.ts`,
+			count: 2,
+			files: [{ path: `${mountPath}/b.ts`, diff: `--- ${mountPath}/b.ts\n+++ ${mountPath}/b.ts` }],
+			note: "unrelated",
+		}
+		metadata.self = metadata
+		createPathRewriteAfterHandler(config)(
+			{ tool: "edit", sessionID: sessionId, callID: "call-1" },
+			{ title: "", output: "", metadata },
+		)
+
+		expect(metadata.filepath).toBe(`${projectPath}/a.ts`)
+		expect(metadata.count).toBe(2)
+		expect(metadata.files).toEqual([
+			{ path: `${projectPath}/b.ts`, diff: `--- ${projectPath}/b.ts\n+++ ${projectPath}/b.ts` },
+		])
+		expect(metadata.note).toBe("unrelated")
+	})
+
 	test("rewrites relative paths in title", async () => {
 		const projectPath = "/home/user/project"
 		// Use a mount path that matches the .agentfs/mounts pattern
@@ -844,3 +892,161 @@ describe("createPathRewriteAfterHandler", () => {
 		expect(output.metadata.filepath).toBe("src/index.ts")
 	})
 })
+
+describe("rewriteFieldPath", () => {
+	const upper = (value: string) => value.toUpperCase()
+
+	test("rewrites a top-level string field", () => {
+		const args = { filePath: "a", other: "b" }
+		rewriteFieldPath(args, ["filePath"], upper)
+		expect(args).toEqual({ filePath: "A", other: "b" })
+	})
+
+	test("follows nested fields", () => {
+		const args = { options: { target: { path: "a" } } }
+		rewriteFieldPath(args, ["options", "target", "path"], upper)
+		expect(args.options.target.path).toBe("A")
+	})
+
+	test("steps into array elements", () => {
+		const args = { edits: [{ filePath: "a" }, { filePath: "b" }, { oldString: "c" }], paths: ["d"] }
+		rewriteFieldPath(args, ["edits[]", "filePath"], upper)
+		rewriteFieldPath(args, ["paths[]"], upper)
+		expect(args).toEqual({
+			edits: [{ filePath: "A" }, { filePath: "B" }, { oldString: "c" }],
+			paths: ["D"],
+		})
+	})
+
+	test("leaves missing fields and non-strings alone", () => {
+		const args = { count: 1, edits: "not an array" }
+		rewriteFieldPath(args, ["count"], upper)
+		rewriteFieldPath(args, ["edits[]", "filePath"], upper)
+		rewriteFieldPath(args, ["missing", "path"], upper)
+		expect(args).toEqual({ count: 1, edits: "not an array" })
+	})
+})
+
+describe("getPathTools", () => {
+	test("merges configured fields with the built-in tools", () => {
+		const tools = getPathTools(
+			parseConfig({ pathArgs: { Read: ["extra"], mcp_fs: ["source", "targets[]"] } }),
+		)
+
+		expect(tools.read).toEqual(["filePath", "extra"])
+		expect(tools.mcp_fs).toEqual(["source", "targets[]"])
+		expect(tools.multiedit).toEqual(["filePath", "edits[].filePath"])
+	})
+})
+
+describe("createPathRewriteHandler", () => {
+	let testDir: string
+	let config: AgentFSConfig
+	const sessionId = "test-path-rewrite-before-session"
+	const projectPath = "/home/user/project"
+
+	beforeEach(async () => {
+		testDir = join(tmpdir(), `agentfs-path-rewrite-before-test-${Date.now()}`)
+		await mkdir(testDir, { recursive: true })
+
+		config = parseConfig({
+			dbPath: join(testDir, ".agentfs/"),
+			mountPath: join(testDir, "mounts/"),
+			pathArgs: { mcp_fs: ["options.source", "targets[]"] },
+		})
+		await createSessionContext(config, sessionId, projectPath)
+		getSession(sessionId)!.mount.mounted = true
+	})
+
+	afterEach(async () => {
+		await closeSession(sessionId)
+		await rm(testDir, { recursive: true, force: true })
+	})
+
+	test("resolves relative and home-relative arguments before rewriting", () => {
+		const mountPath = getSession(sessionId)!.mount.mountPath
+		const handler = createPathRewriteHandler(config)
+		const read = { args: { filePath: "src/a.ts" } }
+		const glob = { args: { pattern: "*.ts", path: "." } }
+		const outside = { args: { filePath: "../other/a.ts" } }
+
+		handler({ tool: "read", sessionID: sessionId, callID: "c1" }, read)
+		handler({ tool: "glob", sessionID: sessionId, callID: "c2" }, glob)
+		handler({ tool: "read", sessionID: sessionId, callID: "c3" }, outside)
+
+		expect(read.args.filePath).toBe(`${mountPath}/src/a.ts`)
+		expect(glob.args.path).toBe(mountPath)
+		expect(outside.args.filePath).toBe("../other/a.ts")
+	})
+
+	test("rewrites every file in a multiedit call", () => {
+		const mountPath = getSession(sessionId)!.mount.mountPath
+		const output = {
+			args: {
+				filePath: `${projectPath}/a.ts`,
+				edits: [
+					{ filePath: `${projectPath}/a.ts`, oldString: "x", newString: "y" },
+					{ filePath: "/tmp/outside.ts", oldString: "x", newString: "y" },
+				],
+			},
+		}
+
+		createPathRewriteHandler(config)(
+			{ tool: "multiedit", sessionID: sessionId, callID: "c1" },
+			output,
+		)
+
+		expect(output.args.filePath).toBe(`${mountPath}/a.ts`)
+		expect(output.args.edits[0]!.filePath).toBe(`${mountPath}/a.ts`)
+		expect(output.args.edits[1]!.filePath).toBe("/tmp/outside.ts")
+	})
+
+	test("rewrites configured nested and array fields of custom tools", () => {
+		const mountPath = getSession(sessionId)!.mount.mountPath
+		const output = {
+			args: {
+				options: { source: `${projectPath}/src` },
+				targets: [`${projectPath}/a.ts`, `${projectPath}/b.ts`],
+			},
+		}
+
+		createPathRewriteHandler(config)({ tool: "MCP_FS", sessionID: sessionId, callID: "c1" }, output)
+
+		expect(output.args.options.source).toBe(`${mountPath}/src`)
+		expect(output.args.targets).toEqual([`${mountPath}/a.ts`, `${mountPath}/b.ts`])
+	})
+
+	test("runs bash commands from the mount in shell mode", () => {
+		const mountPath = getSession(sessionId)!.mount.mountPath
+		const output = { args: { command: `cat ${projectPath}/a.ts` } }
+
+		createPathRewriteHandler(config)({ tool: "bash", sessionID: sessionId, callID: "c1" }, output)
+
+		expect(output.args.command).toBe(`cd ${mountPath} || exit 1\ncat ${mountPath}/a.ts`)
+	})
+
+	test("replaces every project path occurrence in regex mode", () => {
+		const mountPath = getSession(sessionId)!.mount.mountPath
+		const output = { args: { command: `echo "see ${projectPath}/a.ts"` } }
+
+		createPathRewriteHandler({ ...config, bashRewrite: "regex" })(
+			{ tool: "bash", sessionID: sessionId, callID: "c1" },
+			output,
+		)
+
+		expect(output.args.command).toBe(`echo "see ${mountPath}/a.ts"`)
+	})
+
+	test("rewrites paths anywhere in patch text", () => {
+		const mountPath = getSession(sessionId)!.mount.mountPath
+		const output = {
+			args: { patchText: `*** Begin Patch\n*** Update File: ${projectPath}/a.ts\n*** End Patch` },
+		}
+
+		createPathRewriteHandler(config)({ tool: "patch", sessionID: sessionId, callID: "c1" }, output)
+
+		expect(output.args.patchText).toBe(
+			`*** Begin Patch\n*** Update File: ${mountPath}/a.ts\n*** End Patch`,
+		)
+	})
+})
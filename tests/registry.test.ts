@@ -0,0 +1,160 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test"
+import { mkdir, rm, writeFile } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { spawn } from "bun"
+import { recoverOrphanMounts } from "../src/agentfs/recovery"
+import {
+	forgetMount,
+	isProcessAlive,
+	type MountRecord,
+	readMountRegistry,
+	recordMount,
+	updateMountRegistry,
+} from "../src/agentfs/registry"
+import type { MountInfo } from "../src/agentfs/types"
+
+async function deadPid(): Promise<number> {
+	const proc = spawn(["true"])
+	await proc.exited
+	return proc.pid
+}
+
+describe("mount registry", () => {
+	let mountRoot: string
+	let mount: MountInfo
+
+	beforeEach(async () => {
+		mountRoot = join(tmpdir(), `agentfs-registry-test-${Date.now()}`, "mounts")
+		await mkdir(mountRoot, { recursive: true })
+		mount = {
+			sessionId: "ses_1",
+			projectPath: "/project",
+			mountPath: join(mountRoot, "ses_1"),
+			dbPath: join(mountRoot, "..", "ses_1.db"),
+			mounted: false,
+			backend: "fuse",
+			pid: 4242,
+		}
+	})
+
+	afterEach(async () => {
+		await rm(join(mountRoot, ".."), { recursive: true, force: true })
+	})
+
+	test("records mounts owned by this process and forgets them", async () => {
+		await recordMount(mount, "mounting")
+		await recordMount(mount, "mounted")
+
+		const records = await readMountRegistry(mountRoot)
+		expect(records).toHaveLength(1)
+		expect(records[0]).toMatchObject({
+			sessionId: "ses_1",
+			mountPath: mount.mountPath,
+			ownerPid: process.pid,
+			mountPid: 4242,
+			state: "mounted",
+		})
+
+		await forgetMount(mount)
+		expect(await readMountRegistry(mountRoot)).toEqual([])
+	})
+
+	test("keeps concurrent updates", async () => {
+		await Promise.all(
+			["a", "b", "c"].map((id) =>
+				recordMount({ ...mount, sessionId: id, mountPath: join(mountRoot, id) }, "mounted"),
+			),
+		)
+
+		expect((await readMountRegistry(mountRoot)).map((record) => record.sessionId).sort()).toEqual([
+			"a",
+			"b",
+			"c",
+		])
+	})
+
+	test("waits for the lock held by another process", async () => {
+		const lockPath = join(mountRoot, "registry.json.lock")
+		await writeFile(lockPath, String(process.ppid))
+		let done = false
+		const update = recordMount(mount, "mounted").then(() => {
+			done = true
+		})
+
+		await Bun.sleep(100)
+		expect(done).toBe(false)
+		await rm(lockPath)
+		await update
+		expect(await readMountRegistry(mountRoot)).toHaveLength(1)
+		expect(await Bun.file(lockPath).exists()).toBe(false)
+	})
+
+	test("takes over a lock left by a dead process", async () => {
+		await writeFile(join(mountRoot, "registry.json.lock"), String(await deadPid()))
+
+		await recordMount(mount, "mounted")
+		expect(await readMountRegistry(mountRoot)).toHaveLength(1)
+	})
+
+	test("reads a missing or corrupt registry as empty", async () => {
+		expect(await readMountRegistry(join(mountRoot, "missing"))).toEqual([])
+		await writeFile(join(mountRoot, "registry.json"), "{not json")
+		expect(await readMountRegistry(mountRoot)).toEqual([])
+	})
+
+	test("detects dead processes", async () => {
+		expect(isProcessAlive(process.pid)).toBe(true)
+		expect(isProcessAlive(await deadPid())).toBe(false)
+	})
+})
+
+describe("recoverOrphanMounts", () => {
+	let testDir: string
+	let mountRoot: string
+
+	function record(overrides: Partial<MountRecord>): MountRecord {
+		return {
+			sessionId: "ses",
+			projectPath: "/project",
+			mountPath: join(mountRoot, "ses"),
+			dbPath: join(testDir, "ses.db"),
+			backend: "fuse",
+			ownerPid: process.pid,
+			state: "mounted",
+			updatedAt: Date.now(),
+			...overrides,
+		}
+	}
+
+	beforeEach(async () => {
+		testDir = join(tmpdir(), `agentfs-recovery-test-${Date.now()}`)
+		mountRoot = join(testDir, "mounts")
+		await mkdir(mountRoot, { recursive: true })
+	})
+
+	afterEach(async () => {
+		await rm(testDir, { recursive: true, force: true })
+	})
+
+	test("drops records of dead owners and removes empty databases of interrupted setups", async () => {
+		const dead = await deadPid()
+		const emptyDb = join(testDir, "interrupted.db")
+		const usedDb = join(testDir, "used.db")
+		await writeFile(emptyDb, "")
+		await writeFile(usedDb, "data")
+		await updateMountRegistry(mountRoot, () => [
+			record({ sessionId: "live", mountPath: join(mountRoot, "live") }),
+			record({ sessionId: "interrupted", ownerPid: dead, state: "mounting", dbPath: emptyDb }),
+			record({ sessionId: "used", ownerPid: dead, state: "mounting", dbPath: usedDb }),
+			record({ sessionId: "gone", ownerPid: dead, mountPath: join(mountRoot, "gone") }),
+		])
+
+		const result = await recoverOrphanMounts(mountRoot)
+
+		expect(result).toEqual({ adopted: [], unmounted: [], removedDatabases: [emptyDb] })
+		expect(await Bun.file(emptyDb).exists()).toBe(false)
+		expect(await Bun.file(usedDb).exists()).toBe(true)
+		expect((await readMountRegistry(mountRoot)).map((entry) => entry.sessionId)).toEqual(["live"])
+	})
+})
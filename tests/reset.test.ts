@@ -0,0 +1,51 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test"
+import { mkdir, rm, writeFile } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { listSandboxChanges } from "../src/agentfs/changes"
+import { closeSession, createSession, getSession } from "../src/agentfs/client"
+import { resetSandbox } from "../src/agentfs/reset"
+import { type AgentFSConfig, parseConfig } from "../src/config/schema"
+
+describe("resetSandbox", () => {
+	let testDir: string
+	let projectDir: string
+	let config: AgentFSConfig
+	const sessionId = "test-reset-session"
+
+	beforeEach(async () => {
+		testDir = join(tmpdir(), `agentfs-reset-test-${Date.now()}`)
+		projectDir = join(testDir, "project")
+		await mkdir(projectDir, { recursive: true })
+		await writeFile(join(projectDir, "a.ts"), "export const a = 1")
+
+		config = parseConfig({
+			dbPath: join(testDir, ".agentfs/"),
+			mountPath: join(testDir, "mounts/"),
+			autoMount: false,
+		})
+	})
+
+	afterEach(async () => {
+		await closeSession(sessionId)
+		await rm(testDir, { recursive: true, force: true })
+	})
+
+	test("throws for unknown sessions", async () => {
+		await expect(resetSandbox("non-existent")).rejects.toThrow("Session not found")
+	})
+
+	test("discards the overlay delta and keeps the session context", async () => {
+		const context = await createSession(config, sessionId, projectDir)
+		await context.agent!.fs.writeFile("/a.ts", "export const a = 2")
+		await context.agent!.fs.writeFile("/b.ts", "export const b = 1")
+		expect(await listSandboxChanges(context)).toHaveLength(2)
+
+		await resetSandbox(sessionId)
+
+		expect(getSession(sessionId)).toBe(context)
+		expect(context.agent).toBeDefined()
+		expect(await listSandboxChanges(context)).toEqual([])
+		expect(await context.agent!.kv.get("session:resetAt")).toBeNumber()
+	})
+})
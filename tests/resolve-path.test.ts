@@ -0,0 +1,66 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test"
+import { mkdir, rm, symlink } from "node:fs/promises"
+import { homedir, tmpdir } from "node:os"
+import { join } from "node:path"
+import { pathToFileURL } from "node:url"
+import { isInside, resolveToolPath } from "../src/hooks/resolve-path"
+
+describe("isInside", () => {
+	test("matches the root and paths below it", () => {
+		expect(isInside("/a/b", "/a/b")).toBe(true)
+		expect(isInside("/a/b/c", "/a/b")).toBe(true)
+		expect(isInside("/a/bc", "/a/b")).toBe(false)
+		expect(isInside("/a", "/a/b")).toBe(false)
+	})
+
+	test("treats names starting with .. as inside", () => {
+		expect(isInside("/a/b/..cache/x", "/a/b")).toBe(true)
+		expect(isInside("/a/b/..", "/a/b")).toBe(false)
+		expect(isInside("/a/..b", "/a/b")).toBe(false)
+	})
+})
+
+describe("resolveToolPath", () => {
+	let testDir: string
+	let projectDir: string
+
+	beforeEach(async () => {
+		testDir = join(tmpdir(), `agentfs-resolve-path-test-${Date.now()}`)
+		projectDir = join(testDir, "project")
+		await mkdir(join(projectDir, "src"), { recursive: true })
+	})
+
+	afterEach(async () => {
+		await rm(testDir, { recursive: true, force: true })
+	})
+
+	test("resolves relative paths against the project", () => {
+		expect(resolveToolPath("src/a.ts", projectDir)).toBe(join(projectDir, "src/a.ts"))
+		expect(resolveToolPath(".", projectDir)).toBe(projectDir)
+		expect(resolveToolPath("../other/a.ts", projectDir)).toBe(join(testDir, "other/a.ts"))
+	})
+
+	test("expands ~ and file:// URIs", () => {
+		expect(resolveToolPath("~/notes.md", projectDir)).toBe(join(homedir(), "notes.md"))
+		expect(resolveToolPath(pathToFileURL(join(projectDir, "a b.ts")).href, projectDir)).toBe(
+			join(projectDir, "a b.ts"),
+		)
+	})
+
+	test("maps symlinks into the project to project paths", async () => {
+		await symlink(join(projectDir, "src"), join(testDir, "src-link"))
+
+		expect(resolveToolPath(join(testDir, "src-link/new.ts"), projectDir)).toBe(
+			join(projectDir, "src/new.ts"),
+		)
+	})
+
+	test("maps paths when the project is reached through a symlink", async () => {
+		const linkedProject = join(testDir, "linked-project")
+		await symlink(projectDir, linkedProject)
+
+		expect(resolveToolPath(join(projectDir, "src/a.ts"), linkedProject)).toBe(
+			join(linkedProject, "src/a.ts"),
+		)
+	})
+})
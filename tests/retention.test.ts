@@ -0,0 +1,178 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test"
+import { existsSync } from "node:fs"
+import { mkdir, rm, utimes, writeFile } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { spawnSync } from "bun"
+import { createCheckpoint, forgetCheckpoints } from "../src/agentfs/checkpoints"
+import { closeSession, createSession, getDbPath, getMountPath } from "../src/agentfs/client"
+import { mountSandbox, unmountSandbox } from "../src/agentfs/mount"
+import { collectGarbage } from "../src/agentfs/retention"
+import { writeSandboxFile } from "../src/agentfs/sandbox-fs"
+import { type AgentFSConfig, parseConfig } from "../src/config/schema"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+describe("collectGarbage", () => {
+	let testDir: string
+	let projectDir: string
+
+	function configWith(retention: Partial<AgentFSConfig["retention"]> = {}): AgentFSConfig {
+		return parseConfig({
+			dbPath: join(testDir, ".agentfs/"),
+			mountPath: join(testDir, "mounts/"),
+			retention,
+		})
+	}
+
+	/**
+	 * Create a closed session last used daysAgo days ago, optionally with a sandbox change.
+	 */
+	async function storeSession(sessionId: string, daysAgo: number, changed = false) {
+		const config = configWith()
+		const context = await createSession(config, sessionId, projectDir)
+		if (changed) {
+			await writeSandboxFile(context, "new.ts", Buffer.from("export {}"))
+		}
+		await closeSession(sessionId)
+		await ageSession(sessionId, daysAgo)
+	}
+
+	async function ageSession(sessionId: string, daysAgo: number) {
+		const usedAt = new Date(Date.now() - daysAgo * DAY_MS)
+		for (const suffix of ["", "-wal", "-shm"]) {
+			await utimes(`${getDbPath(configWith(), sessionId)}${suffix}`, usedAt, usedAt).catch(() => {})
+		}
+	}
+
+	beforeEach(async () => {
+		testDir = join(tmpdir(), `agentfs-retention-test-${Date.now()}`)
+		projectDir = join(testDir, "project")
+		await mkdir(projectDir, { recursive: true })
+		await writeFile(join(projectDir, "index.ts"), "export {}")
+	})
+
+	afterEach(async () => {
+		await rm(testDir, { recursive: true, force: true })
+	})
+
+	test("deletes sessions older than maxAgeDays with their mount directories", async () => {
+		await storeSession("old", 40)
+		await storeSession("recent", 1)
+
+		const config = configWith()
+		const result = await collectGarbage(config, projectDir)
+
+		expect(result.removedSessions).toEqual(["old"])
+		expect(result.removedMountDirs).toEqual([getMountPath(config, "old")])
+		expect(result.reclaimedBytes).toBeGreaterThan(0)
+		expect(await Bun.file(getDbPath(config, "old")).exists()).toBe(false)
+		expect(await Bun.file(getDbPath(config, "recent")).exists()).toBe(true)
+	})
+
+	test("deletes the checkpoints of deleted sessions", async () => {
+		const config = configWith()
+		const context = await createSession(config, "old", projectDir)
+		await createCheckpoint(context, "call-1", "write", ["index.ts"], 50)
+		forgetCheckpoints("old")
+		await closeSession("old")
+		await ageSession("old", 40)
+
+		const result = await collectGarbage(config, projectDir)
+
+		expect(result.removedSessions).toEqual(["old"])
+		expect(existsSync(join(testDir, ".agentfs", "old.checkpoints"))).toBe(false)
+	})
+
+	test("keeps sessions whose worktree has unapplied changes", async () => {
+		const git = (...args: string[]) => spawnSync(["git", ...args], { cwd: projectDir })
+		git("init", "-q")
+		git("add", ".")
+		git("-c", "user.name=test", "-c", "user.email=test@example.com", "commit", "-qm", "init")
+		const config = parseConfig({
+			dbPath: join(testDir, ".agentfs/"),
+			mountPath: join(testDir, "mounts/"),
+			mountBackend: "git-worktree",
+		})
+		for (const sessionId of ["clean", "changed"]) {
+			const context = await createSession(config, sessionId, projectDir)
+			await mountSandbox(context.mount, projectDir)
+			if (sessionId === "changed") {
+				await writeFile(join(context.mount.mountPath, "new.ts"), "export {}")
+			}
+			await unmountSandbox(context.mount)
+			await closeSession(sessionId)
+			await ageSession(sessionId, 40)
+		}
+
+		const result = await collectGarbage(config, projectDir)
+
+		expect(result.removedSessions).toEqual(["clean"])
+		expect(result.keptUnapplied).toEqual(["changed"])
+		expect(existsSync(join(getMountPath(config, "changed"), "new.ts"))).toBe(true)
+		expect(existsSync(getMountPath(config, "clean"))).toBe(false)
+	})
+
+	test("keeps only the newest maxSessions", async () => {
+		await storeSession("a", 3)
+		await storeSession("b", 2)
+		await storeSession("c", 1)
+
+		const result = await collectGarbage(configWith({ maxSessions: 2 }), projectDir)
+
+		expect(result.removedSessions).toEqual(["a"])
+	})
+
+	test("keeps sessions with unapplied changes unless told otherwise", async () => {
+		await storeSession("changed", 40, true)
+
+		const kept = await collectGarbage(configWith(), projectDir)
+		expect(kept.removedSessions).toEqual([])
+		expect(kept.keptUnapplied).toEqual(["changed"])
+
+		const removed = await collectGarbage(configWith({ keepUnapplied: false }), projectDir)
+		expect(removed.removedSessions).toEqual(["changed"])
+	})
+
+	test("never deletes open sessions", async () => {
+		await storeSession("open", 40)
+		await createSession(configWith(), "open", projectDir)
+
+		try {
+			const result = await collectGarbage(configWith({ maxSessions: 1, maxAgeDays: 1 }), projectDir)
+			expect(result.removedSessions).toEqual([])
+		} finally {
+			await closeSession("open")
+		}
+	})
+
+	test("keeps sessions whose changes cannot be listed", async () => {
+		const config = configWith()
+		const dbPath = getDbPath(config, "corrupt")
+		await mkdir(join(testDir, ".agentfs"), { recursive: true })
+		await writeFile(dbPath, "not a database")
+		const usedAt = new Date(Date.now() - 40 * DAY_MS)
+		await utimes(dbPath, usedAt, usedAt)
+
+		const result = await collectGarbage(config, projectDir)
+
+		expect(result.removedSessions).toEqual([])
+		expect(result.keptUnapplied).toEqual(["corrupt"])
+		expect(await Bun.file(dbPath).exists()).toBe(true)
+	})
+
+	test("removes empty mount directories of this project's sessions without a database", async () => {
+		const config = configWith()
+		await mkdir(join(testDir, ".agentfs", "orphan.checkpoints"), { recursive: true })
+		await mkdir(getMountPath(config, "orphan"), { recursive: true })
+		await mkdir(join(testDir, ".agentfs", "busy.checkpoints"), { recursive: true })
+		await mkdir(join(getMountPath(config, "busy"), "src"), { recursive: true })
+		// Another project's session sharing the mountPath
+		await mkdir(getMountPath(config, "elsewhere"), { recursive: true })
+
+		const result = await collectGarbage(config, projectDir)
+
+		expect(result.removedMountDirs).toEqual([getMountPath(config, "orphan")])
+		expect(existsSync(getMountPath(config, "elsewhere"))).toBe(true)
+	})
+})
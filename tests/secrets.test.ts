@@ -0,0 +1,83 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test"
+import { mkdir, rm, writeFile } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { listSandboxChanges } from "../src/agentfs/changes"
+import { closeSession, createSession } from "../src/agentfs/client"
+import { resetSandbox } from "../src/agentfs/reset"
+import { listSandboxFiles, readSandboxFile } from "../src/agentfs/sandbox-fs"
+import { findHiddenFiles, hideSecretFiles } from "../src/agentfs/secrets"
+import { type AgentFSConfig, parseConfig } from "../src/config/schema"
+
+describe("hiding secret files", () => {
+	let testDir: string
+	let projectDir: string
+	let config: AgentFSConfig
+	const sessionId = "test-secrets-session"
+
+	beforeEach(async () => {
+		testDir = join(tmpdir(), `agentfs-secrets-test-${Date.now()}`)
+		projectDir = join(testDir, "project")
+		await mkdir(join(projectDir, "apps/web"), { recursive: true })
+		await mkdir(join(projectDir, "certs"), { recursive: true })
+		await mkdir(join(projectDir, ".git"), { recursive: true })
+		await writeFile(join(projectDir, ".env"), "SECRET=1")
+		await writeFile(join(projectDir, "apps/web/.env.local"), "SECRET=2")
+		await writeFile(join(projectDir, "certs/server.pem"), "KEY")
+		await mkdir(join(projectDir, "node_modules/pkg"), { recursive: true })
+		await writeFile(join(projectDir, ".env.example"), "SECRET=")
+		await writeFile(join(projectDir, ".git/.env"), "not scanned")
+		await writeFile(join(projectDir, "node_modules/pkg/.env"), "not scanned")
+		await writeFile(join(projectDir, "index.ts"), "export {}")
+
+		config = parseConfig({
+			dbPath: join(testDir, ".agentfs/"),
+			mountPath: join(testDir, "mounts/"),
+			autoMount: false,
+		})
+	})
+
+	afterEach(async () => {
+		await closeSession(sessionId)
+		await rm(testDir, { recursive: true, force: true })
+	})
+
+	test("finds project files matching the hide patterns", async () => {
+		expect(await findHiddenFiles(projectDir, config.pathPolicy.hide)).toEqual([
+			".env",
+			"apps/web/.env.local",
+			"certs/server.pem",
+		])
+		expect(await findHiddenFiles(projectDir, [".env*"])).toEqual([
+			".env",
+			".env.example",
+			"apps/web/.env.local",
+		])
+	})
+
+	test("makes hidden files absent without reporting them as changes", async () => {
+		const context = await createSession(config, sessionId, projectDir)
+
+		await hideSecretFiles(context, config.pathPolicy.hide)
+
+		await expect(readSandboxFile(context, ".env")).rejects.toThrow()
+		// .git and node_modules are part of the overlay but not scanned for secrets
+		expect([...(await listSandboxFiles(context)).keys()].sort()).toEqual([
+			".env.example",
+			".git/.env",
+			"index.ts",
+			"node_modules/pkg/.env",
+		])
+		expect(await listSandboxChanges(context)).toEqual([])
+	})
+
+	test("keeps files hidden after a reset", async () => {
+		const context = await createSession(config, sessionId, projectDir)
+		await hideSecretFiles(context, config.pathPolicy.hide)
+
+		await resetSandbox(sessionId)
+
+		await expect(readSandboxFile(context, "apps/web/.env.local")).rejects.toThrow()
+		expect(await listSandboxChanges(context)).toEqual([])
+	})
+})
@@ -0,0 +1,67 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from "bun:test"
+import { mkdir, rm, writeFile } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import type { Event } from "@opencode-ai/sdk"
+import { createCheckpoint, getCheckpointDir, listCheckpoints } from "../src/agentfs/checkpoints"
+import { closeSession, createSession, getSession } from "../src/agentfs/client"
+import { fuseBackend } from "../src/agentfs/mount"
+import { parseConfig } from "../src/config/schema"
+import { createSessionHandler } from "../src/hooks/session"
+
+describe("createSessionHandler", () => {
+	let testDir: string
+	let projectDir: string
+	const sessionId = "test-session-handler"
+
+	beforeEach(async () => {
+		testDir = join(tmpdir(), `agentfs-session-test-${Date.now()}`)
+		projectDir = join(testDir, "project")
+		await mkdir(projectDir, { recursive: true })
+		await writeFile(join(projectDir, "a.ts"), "a1")
+	})
+
+	afterEach(async () => {
+		await closeSession(sessionId)
+		await rm(testDir, { recursive: true, force: true })
+	})
+
+	test("finishes cleaning up a deleted session when unmounting fails", async () => {
+		const config = parseConfig({
+			dbPath: join(testDir, ".agentfs/"),
+			mountPath: join(testDir, "mounts/"),
+			autoMount: false,
+		})
+		const toasts: unknown[] = []
+		const client = {
+			app: { log: () => {} },
+			tui: { showToast: (toast: unknown) => toasts.push(toast) },
+		}
+		const handler = createSessionHandler(
+			config,
+			projectDir,
+			client as unknown as Parameters<typeof createSessionHandler>[2],
+		)
+		const context = await createSession(config, sessionId, projectDir)
+		await createCheckpoint(context, "call-1", "write", ["a.ts"], 50)
+		context.mount.mounted = true
+		const unmount = spyOn(fuseBackend, "unmount").mockRejectedValue(
+			new Error("Device or resource busy"),
+		)
+
+		try {
+			await handler({
+				event: { type: "session.deleted", properties: { info: { id: sessionId } } } as Event,
+			})
+			expect(unmount).toHaveBeenCalled()
+		} finally {
+			unmount.mockRestore()
+		}
+
+		expect(JSON.stringify(toasts)).toContain("AgentFS Unmount Failed")
+		expect(getSession(sessionId)).toBeUndefined()
+		// Forgotten checkpoints are read from disk again
+		await writeFile(join(getCheckpointDir(context.mount.dbPath, sessionId), "index.json"), "[]")
+		expect(await listCheckpoints(context)).toEqual([])
+	})
+})
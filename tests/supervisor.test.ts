@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test"
+import { mkdir, readFile, rm } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { spawn } from "bun"
+import { buildSupervisorCommand } from "../src/agentfs/mount"
+import {
+	parseSupervisorOptions,
+	runSupervisor,
+	type SupervisorOptions,
+} from "../src/agentfs/supervisor"
+
+describe("mount supervisor", () => {
+	let testDir: string
+
+	function options(overrides: Partial<SupervisorOptions>): SupervisorOptions {
+		return {
+			command: ["true"],
+			cwd: testDir,
+			mountPath: join(testDir, "mount"),
+			parentPid: process.pid,
+			maxRestarts: 0,
+			initialBackoffMs: 10,
+			maxBackoffMs: 40,
+			watchIntervalMs: 20,
+			...overrides,
+		}
+	}
+
+	beforeEach(async () => {
+		testDir = join(tmpdir(), `agentfs-supervisor-test-${Date.now()}`)
+		await mkdir(testDir, { recursive: true })
+	})
+
+	afterEach(async () => {
+		await rm(testDir, { recursive: true, force: true })
+	})
+
+	test("restarts a failing mount up to maxRestarts, then gives up", async () => {
+		const exitCode = await runSupervisor(
+			options({ command: ["sh", "-c", "echo run >> runs.txt; exit 3"], maxRestarts: 2 }),
+		)
+
+		expect(exitCode).toBe(3)
+		expect((await readFile(join(testDir, "runs.txt"), "utf8")).trim().split("\n")).toHaveLength(3)
+	})
+
+	test("stops the mount when the parent process dies", async () => {
+		const parent = spawn(["sleep", "0.2"])
+
+		const startedAt = Date.now()
+		const exitCode = await runSupervisor(
+			options({ command: ["sleep", "30"], parentPid: parent.pid, maxRestarts: 5 }),
+		)
+
+		expect(exitCode).toBe(0)
+		expect(Date.now() - startedAt).toBeLessThan(5000)
+	})
+
+	test("passes arguments to the mount command without a shell", async () => {
+		const proc = spawn(
+			buildSupervisorCommand(
+				options({ command: ["echo", "$(touch injected)", "a;b"], parentPid: process.pid }),
+			),
+			{ cwd: testDir, stdout: "pipe", stderr: "pipe" },
+		)
+		const stdout = await new Response(proc.stdout).text()
+		await proc.exited
+
+		expect(stdout.trim()).toBe("$(touch injected) a;b")
+		expect(await Bun.file(join(testDir, "injected")).exists()).toBe(false)
+	})
+
+	test("fails with a clear message when its options are missing or incomplete", async () => {
+		const proc = spawn(["bun", join(import.meta.dir, "../src/agentfs/supervisor.ts")], {
+			stdout: "pipe",
+			stderr: "pipe",
+		})
+		const stderr = await new Response(proc.stderr).text()
+
+		expect(await proc.exited).toBe(2)
+		expect(stderr).toContain("the options argument is missing")
+		expect(() => parseSupervisorOptions("{not json")).toThrow("not valid JSON")
+		expect(() => parseSupervisorOptions(JSON.stringify({ ...options({}), command: [] }))).toThrow(
+			"non-empty command array",
+		)
+		expect(() =>
+			parseSupervisorOptions(JSON.stringify({ ...options({}), parentPid: undefined })),
+		).toThrow("parentPid as a number")
+		expect(parseSupervisorOptions(JSON.stringify(options({})))).toEqual(options({}))
+	})
+})
@@ -0,0 +1,85 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test"
+import { existsSync } from "node:fs"
+import { mkdir, rm } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { closeDatabase, closeSession, createSession, openDatabase } from "../src/agentfs/client"
+import {
+	flushToolCalls,
+	getPendingToolCallsPath,
+	hasPendingToolCalls,
+	recordToolCall,
+} from "../src/agentfs/tool-calls"
+import { type AgentFSConfig, parseConfig } from "../src/config/schema"
+
+describe("recordToolCall", () => {
+	let testDir: string
+	let projectDir: string
+	let config: AgentFSConfig
+	const sessionId = "test-tool-calls-session"
+
+	beforeEach(async () => {
+		testDir = join(tmpdir(), `agentfs-tool-calls-test-${Date.now()}`)
+		projectDir = join(testDir, "project")
+		await mkdir(projectDir, { recursive: true })
+
+		config = parseConfig({
+			dbPath: join(testDir, ".agentfs/"),
+			mountPath: join(testDir, "mounts/"),
+			autoMount: false,
+		})
+	})
+
+	afterEach(async () => {
+		await closeSession(sessionId)
+		await rm(testDir, { recursive: true, force: true })
+	})
+
+	test("stores timestamps in seconds with the duration in milliseconds", async () => {
+		const context = await createSession(config, sessionId, projectDir)
+		const startedAt = Date.now() - 2500
+
+		await recordToolCall({
+			tool: "write",
+			callID: "call-1",
+			sessionID: sessionId,
+			args: { filePath: "/a.ts" },
+			title: "a.ts",
+			startedAt,
+			completedAt: startedAt + 2500,
+		})
+
+		const [call] = await context.agent!.tools.getRecent(0)
+		expect(call?.name).toBe("write")
+		expect(call?.started_at).toBe(Math.floor(startedAt / 1000))
+		expect(call?.completed_at).toBe(Math.floor((startedAt + 2500) / 1000))
+		expect(call?.parameters).toMatchObject({ callID: "call-1", durationMs: 2500 })
+		expect(call?.status).toBe("success")
+	})
+
+	test("spools records to disk while the database is closed", async () => {
+		const context = await createSession(config, sessionId, projectDir)
+		await closeDatabase(sessionId)
+
+		await recordToolCall({
+			tool: "bash",
+			callID: "call-2",
+			sessionID: sessionId,
+			args: { command: "false" },
+			startedAt: Date.now(),
+			completedAt: Date.now(),
+			error: "Exited with code 1",
+		})
+
+		expect(existsSync(getPendingToolCallsPath(context.mount.dbPath))).toBe(true)
+		expect(hasPendingToolCalls(sessionId)).toBe(true)
+
+		await openDatabase(sessionId)
+		expect(await flushToolCalls(sessionId)).toBe(1)
+
+		expect(hasPendingToolCalls(sessionId)).toBe(false)
+		const [call] = await context.agent!.tools.getRecent(0)
+		expect(call?.name).toBe("bash")
+		expect(call?.error).toBe("Exited with code 1")
+	})
+})
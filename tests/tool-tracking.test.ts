@@ -0,0 +1,111 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test"
+import { mkdir, rm } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { closeSession, createSession } from "../src/agentfs/client"
+import type { SessionContext } from "../src/agentfs/types"
+import { parseConfig } from "../src/config/schema"
+import { createToolTrackingHandlers, getToolError, shouldTrack } from "../src/hooks/tool-tracking"
+
+describe("shouldTrack", () => {
+	test("tracks every tool by default", () => {
+		const config = parseConfig({})
+
+		expect(shouldTrack(config, "read")).toBe(true)
+		expect(shouldTrack(config, "webfetch")).toBe(true)
+	})
+
+	test("tracks nothing when disabled", () => {
+		const config = parseConfig({ toolTracking: { enabled: false } })
+
+		expect(shouldTrack(config, "write")).toBe(false)
+	})
+
+	test("skips excluded tools case-insensitively", () => {
+		const config = parseConfig({ toolTracking: { excludeTools: ["TodoWrite"] } })
+
+		expect(shouldTrack(config, "todowrite")).toBe(false)
+		expect(shouldTrack(config, "write")).toBe(true)
+	})
+
+	test("only tracks filesystem tools when trackAll is false", () => {
+		const config = parseConfig({ toolTracking: { trackAll: false } })
+
+		expect(shouldTrack(config, "edit")).toBe(true)
+		expect(shouldTrack(config, "Bash")).toBe(true)
+		expect(shouldTrack(config, "webfetch")).toBe(false)
+	})
+
+	test("counts tools with configured path arguments as filesystem tools", () => {
+		const config = parseConfig({
+			toolTracking: { trackAll: false },
+			pathArgs: { My_Tool: ["options.path"] },
+		})
+
+		expect(shouldTrack(config, "my_tool")).toBe(true)
+		expect(shouldTrack(config, "multiedit")).toBe(true)
+	})
+})
+
+describe("getToolError", () => {
+	test("returns undefined for successful output", () => {
+		expect(getToolError({ filepath: "/a.ts" })).toBeUndefined()
+		expect(getToolError({ exit: 0 })).toBeUndefined()
+		expect(getToolError(null)).toBeUndefined()
+	})
+
+	test("returns metadata.error", () => {
+		expect(getToolError({ error: "File not found" })).toBe("File not found")
+	})
+
+	test("reports non-zero bash exit codes", () => {
+		expect(getToolError({ exit: 2 })).toBe("Exited with code 2")
+	})
+})
+
+describe("createToolTrackingHandlers", () => {
+	let testDir: string
+	let context: SessionContext
+	const sessionId = "test-tracking-session"
+	const config = () =>
+		parseConfig({
+			dbPath: join(testDir, ".agentfs/"),
+			mountPath: join(testDir, "mounts/"),
+			autoMount: false,
+		})
+
+	beforeEach(async () => {
+		testDir = join(tmpdir(), `agentfs-tracking-test-${Date.now()}`)
+		await mkdir(join(testDir, "project"), { recursive: true })
+		context = await createSession(config(), sessionId, join(testDir, "project"))
+	})
+
+	afterEach(async () => {
+		await closeSession(sessionId)
+		await rm(testDir, { recursive: true, force: true })
+	})
+
+	test("records calls refused before they ran", async () => {
+		const tracking = createToolTrackingHandlers(config())
+		const input = { tool: "read", sessionID: sessionId, callID: "call-1" }
+
+		await tracking.blocked(input, { args: { filePath: ".env" } }, new Error("denied"))
+
+		const [call] = await context.agent!.tools.getRecent(0)
+		expect(call?.name).toBe("read")
+		expect(call?.status).toBe("error")
+		expect(call?.error).toBe("Blocked: denied")
+	})
+
+	test("records calls that never completed as failed once they are stale", async () => {
+		const tracking = createToolTrackingHandlers(config(), undefined, 0)
+		const input = { tool: "edit", sessionID: sessionId, callID: "call-1" }
+
+		await tracking.before(input, { args: { filePath: "a.ts" } })
+		await tracking.before({ ...input, callID: "call-2" }, { args: { filePath: "b.ts" } })
+
+		const [call] = await context.agent!.tools.getRecent(0)
+		expect(call?.parameters).toMatchObject({ callID: "call-1" })
+		expect(call?.error).toContain("did not report a result")
+	})
+})
@@ -0,0 +1,107 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test"
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import type { ToolContext } from "@opencode-ai/plugin"
+import { closeSession, createSession } from "../src/agentfs/client"
+import { writeSandboxFile } from "../src/agentfs/sandbox-fs"
+import type { SessionContext } from "../src/agentfs/types"
+import { parseConfig } from "../src/config/schema"
+import { createSandboxTools } from "../src/tools"
+
+describe("createSandboxTools", () => {
+	let testDir: string
+	let projectDir: string
+	let session: SessionContext
+	let tools: ReturnType<typeof createSandboxTools>
+	const sessionId = "test-tools-session"
+	const context: ToolContext = {
+		sessionID: sessionId,
+		messageID: "msg-1",
+		agent: "build",
+		abort: new AbortController().signal,
+	}
+
+	beforeEach(async () => {
+		testDir = join(tmpdir(), `agentfs-tools-test-${Date.now()}`)
+		projectDir = join(testDir, "project")
+		await mkdir(join(projectDir, "src"), { recursive: true })
+		await writeFile(join(projectDir, "src", "a.ts"), "export const a = 1\n")
+
+		const config = parseConfig({
+			dbPath: join(testDir, ".agentfs/"),
+			mountPath: join(testDir, "mounts/"),
+			autoMount: false,
+		})
+		session = await createSession(config, sessionId, projectDir)
+		tools = createSandboxTools(config)
+	})
+
+	afterEach(async () => {
+		await closeSession(sessionId)
+		await rm(testDir, { recursive: true, force: true })
+	})
+
+	test("agentfs_status reports the sandbox state", async () => {
+		const status = JSON.parse(await tools.agentfs_status!.execute({}, context))
+
+		expect(status).toMatchObject({
+			mounted: false,
+			projectPath: projectDir,
+			dbPath: session.mount.dbPath,
+			databaseOpen: true,
+		})
+	})
+
+	test("agentfs_changes lists changes, optionally under a path", async () => {
+		expect(await tools.agentfs_changes!.execute({}, context)).toBe("No changes in the sandbox.")
+
+		await writeSandboxFile(session, "src/a.ts", Buffer.from("export const a = 2\n"))
+		await writeSandboxFile(session, "notes.md", Buffer.from("notes"))
+
+		expect(await tools.agentfs_changes!.execute({}, context)).toBe(
+			"created\tnotes.md\nmodified\tsrc/a.ts",
+		)
+		expect(await tools.agentfs_changes!.execute({ path: "./src/" }, context)).toBe(
+			"modified\tsrc/a.ts",
+		)
+	})
+
+	test("agentfs_diff shows unified diffs of the changes", async () => {
+		await writeSandboxFile(session, "src/a.ts", Buffer.from("export const a = 2\n"))
+		await writeSandboxFile(session, "image.bin", Buffer.from([0, 1, 2]))
+
+		const diff = await tools.agentfs_diff!.execute({}, context)
+
+		expect(diff).toContain("Binary files a/image.bin and b/image.bin differ")
+		expect(diff).toContain("--- a/src/a.ts\n+++ b/src/a.ts\n@@ -1,1 +1,1 @@")
+		expect(diff).toContain("-export const a = 1\n+export const a = 2")
+	})
+
+	test("agentfs_apply only lists the changes unless dryRun is false", async () => {
+		await writeSandboxFile(session, "src/a.ts", Buffer.from("export const a = 2\n"))
+		await writeSandboxFile(session, "src/b.ts", Buffer.from("export const b = 1\n"))
+
+		const dryRun = await tools.agentfs_apply!.execute({}, context)
+		expect(dryRun).toContain("Would apply 2 changes")
+		expect(dryRun).toContain("created\tsrc/b.ts")
+		expect(await readFile(join(projectDir, "src", "a.ts"), "utf8")).toBe("export const a = 1\n")
+
+		const applied = await tools.agentfs_apply!.execute(
+			{ dryRun: false, paths: ["src/a.ts"] },
+			context,
+		)
+		expect(applied).toContain("Applied 1 changes")
+		expect(await readFile(join(projectDir, "src", "a.ts"), "utf8")).toBe("export const a = 2\n")
+		expect(await Bun.file(join(projectDir, "src", "b.ts")).exists()).toBe(false)
+	})
+
+	test("agentfs_reset discards the sandbox changes", async () => {
+		await writeSandboxFile(session, "src/a.ts", Buffer.from("export const a = 2\n"))
+
+		expect(await tools.agentfs_reset!.execute({}, context)).toBe(
+			"Sandbox reset to the project, 1 changes discarded.",
+		)
+		expect(await tools.agentfs_changes!.execute({}, context)).toBe("No changes in the sandbox.")
+	})
+})
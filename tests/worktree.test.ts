@@ -0,0 +1,157 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test"
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { spawnSync } from "bun"
+import { listSandboxChanges } from "../src/agentfs/changes"
+import { closeSession, createSession } from "../src/agentfs/client"
+import { getMountStatus, mountSandbox, unmountSandbox } from "../src/agentfs/mount"
+import { resetSandbox } from "../src/agentfs/reset"
+import type { MountInfo } from "../src/agentfs/types"
+import { worktreeBackend } from "../src/agentfs/worktree"
+import { parseConfig } from "../src/config/schema"
+
+function git(cwd: string, ...args: string[]) {
+	const result = spawnSync(["git", ...args], { cwd })
+	if (result.exitCode !== 0) {
+		throw new Error(result.stderr.toString())
+	}
+}
+
+describe("git-worktree mount backend", () => {
+	let testDir: string
+	let projectDir: string
+	let mount: MountInfo
+
+	beforeEach(async () => {
+		testDir = join(tmpdir(), `agentfs-worktree-test-${Date.now()}`)
+		projectDir = join(testDir, "project")
+		await mkdir(join(projectDir, "src"), { recursive: true })
+		await writeFile(join(projectDir, "src/a.ts"), "export const a = 1")
+		await writeFile(join(projectDir, "removed.ts"), "gone")
+		git(projectDir, "init", "-q")
+		git(projectDir, "add", ".")
+		git(
+			projectDir,
+			"-c",
+			"user.name=test",
+			"-c",
+			"user.email=test@example.com",
+			"commit",
+			"-qm",
+			"init",
+		)
+
+		// Uncommitted work the session should start from
+		await writeFile(join(projectDir, "src/a.ts"), "export const a = 2")
+		await rm(join(projectDir, "removed.ts"))
+		await writeFile(join(projectDir, "untracked.ts"), "new")
+
+		mount = {
+			sessionId: "worktree-session",
+			projectPath: projectDir,
+			mountPath: join(testDir, "mounts", "worktree-session"),
+			dbPath: join(testDir, ".agentfs", "worktree-session.db"),
+			mounted: false,
+			backend: "git-worktree",
+		}
+	})
+
+	afterEach(async () => {
+		await closeSession(mount.sessionId)
+		await rm(testDir, { recursive: true, force: true })
+	})
+
+	test("checks out the project with its uncommitted changes", async () => {
+		await mountSandbox(mount, projectDir)
+
+		expect(mount.mounted).toBe(true)
+		expect(await readFile(join(mount.mountPath, "src/a.ts"), "utf8")).toBe("export const a = 2")
+		expect(await readFile(join(mount.mountPath, "untracked.ts"), "utf8")).toBe("new")
+		expect(await Bun.file(join(mount.mountPath, "removed.ts")).exists()).toBe(false)
+		expect(await getMountStatus(mount)).toEqual({
+			backend: "git-worktree",
+			mounted: true,
+			mountPath: mount.mountPath,
+			projectPath: projectDir,
+		})
+	})
+
+	test("isolates writes from the project and lists them as changes", async () => {
+		const context = await createSession(
+			parseConfig({
+				dbPath: join(testDir, ".agentfs/"),
+				mountPath: join(testDir, "mounts/"),
+				mountBackend: "git-worktree",
+			}),
+			mount.sessionId,
+			projectDir,
+		)
+		await mountSandbox(context.mount, projectDir)
+		await writeFile(join(context.mount.mountPath, "src/b.ts"), "export const b = 1")
+
+		expect(await Bun.file(join(projectDir, "src/b.ts")).exists()).toBe(false)
+		expect((await listSandboxChanges(context)).map((change) => change.path)).toEqual(["src/b.ts"])
+	})
+
+	test("leaves gitignored files out of the changes", async () => {
+		await writeFile(join(projectDir, ".gitignore"), ".env\nnode_modules/\ndist/\n")
+		await writeFile(join(projectDir, ".env"), "SECRET=1")
+		await mkdir(join(projectDir, "node_modules/dep"), { recursive: true })
+		await writeFile(join(projectDir, "node_modules/dep/index.js"), "module.exports = 1")
+		const context = await createSession(
+			parseConfig({
+				dbPath: join(testDir, ".agentfs/"),
+				mountPath: join(testDir, "mounts/"),
+				mountBackend: "git-worktree",
+			}),
+			mount.sessionId,
+			projectDir,
+		)
+		await mountSandbox(context.mount, projectDir)
+		await mkdir(join(context.mount.mountPath, "dist"))
+		await writeFile(join(context.mount.mountPath, "dist/a.js"), "built")
+
+		expect(await Bun.file(join(context.mount.mountPath, ".env")).exists()).toBe(false)
+		expect(await listSandboxChanges(context)).toEqual([])
+	})
+
+	test("keeps the worktree across unmount and mount", async () => {
+		await mountSandbox(mount, projectDir)
+		await writeFile(join(mount.mountPath, "kept.ts"), "kept")
+
+		await unmountSandbox(mount)
+		expect(mount.mounted).toBe(false)
+		await mountSandbox(mount, projectDir)
+
+		expect(await readFile(join(mount.mountPath, "kept.ts"), "utf8")).toBe("kept")
+	})
+
+	test("reset discards the worktree's changes", async () => {
+		const context = await createSession(
+			parseConfig({
+				dbPath: join(testDir, ".agentfs/"),
+				mountPath: join(testDir, "mounts/"),
+				mountBackend: "git-worktree",
+			}),
+			mount.sessionId,
+			projectDir,
+		)
+		await mountSandbox(context.mount, projectDir)
+		await writeFile(join(context.mount.mountPath, "src/b.ts"), "export const b = 1")
+
+		await resetSandbox(mount.sessionId)
+
+		expect(context.mount.mounted).toBe(true)
+		expect(await listSandboxChanges(context)).toEqual([])
+	})
+
+	test("refuses projects that are not a repository root", async () => {
+		const nested = { ...mount, projectPath: join(projectDir, "src") }
+
+		await expect(worktreeBackend.prepare(nested, nested.projectPath)).rejects.toThrow(
+			"needs the project at the repository root",
+		)
+		await expect(worktreeBackend.prepare(mount, testDir)).rejects.toThrow("needs a git repository")
+	})
+})